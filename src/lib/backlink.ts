@@ -0,0 +1,54 @@
+import { obsidianUrl } from "./task/content-markdown.ts";
+import type { TextEdit } from "./text-edit.ts";
+
+/**
+ * Whether tasks created from a note link back to their line
+ * - off: no back-link
+ * - comment: comment opening the note at a block reference on the line
+ */
+export type BacklinkMode = "off" | "comment";
+
+/** obsidian:// action of back-links, opening the note at a task line */
+export const BACKLINK_ACTION = "todoister-open";
+
+/**
+ * Comment linking a Todoist task back to its line, through the block
+ * reference written at the end of the line
+ * @param file - Path of the note in the vault
+ */
+export const backlinkComment = ({
+	vault,
+	file,
+	block,
+}: {
+	vault: string;
+	file: string;
+	block: string;
+}) =>
+	`[Open in Obsidian](${obsidianUrl(BACKLINK_ACTION, { vault, file, block })})`;
+
+/**
+ * Edit adding a block reference after the id of a task on its first line
+ * @returns The edit, or undefined when no line has the id
+ */
+export function blockRefEdit(
+	content: string,
+	taskId: string,
+	block: string,
+): TextEdit | undefined {
+	const marker = `%%[tid::${taskId}]%%`;
+	const lines = content.split("\n");
+	const line = lines.findIndex((text) => text.includes(marker));
+
+	if (line === -1) {
+		return undefined;
+	}
+
+	const position = { line, ch: lines[line].indexOf(marker) + marker.length };
+
+	return { text: ` ^${block}`, from: position, to: position };
+}
+
+/** Whether a comment is a back-link, those are not shown in the note */
+export const isBacklinkComment = (content: string) =>
+	content.includes(`obsidian://${BACKLINK_ACTION}?`);
@@ -0,0 +1,129 @@
+import { type App, Modal, Notice, Setting } from "obsidian";
+import { parseContent } from "./parse-content.ts";
+import type { TaskConflict } from "./sync-engine.ts";
+import type { ObsidianTask } from "./task/obsidian-task.ts";
+import { obsidianTaskStringify } from "./task/obsidian-task-stringify.ts";
+import type { TaskFormat } from "./task/task-format.ts";
+import type { TaskField } from "./task/task-merge.ts";
+
+const FIELD_NAMES: Record<TaskField, string> = {
+	content: "text",
+	checked: "completion",
+	dueDate: "due date",
+	priority: "priority",
+	labels: "labels",
+	recurrence: "recurrence",
+	description: "description",
+};
+
+/**
+ * Ask which version of a task edited on both sides to keep.
+ * The merged line is editable, so the user can combine both versions.
+ */
+export class ConflictModal extends Modal {
+	#conflict: TaskConflict;
+	#format: TaskFormat;
+	#fileName: string;
+	#resolve: (task: ObsidianTask | undefined) => void;
+	#resolved = false;
+
+	constructor(
+		app: App,
+		{
+			conflict,
+			format,
+			fileName,
+			resolve,
+		}: {
+			conflict: TaskConflict;
+			format: TaskFormat;
+			fileName: string;
+			resolve: (task: ObsidianTask | undefined) => void;
+		},
+	) {
+		super(app);
+		this.#conflict = conflict;
+		this.#format = format;
+		this.#fileName = fileName;
+		this.#resolve = resolve;
+	}
+
+	/**
+	 * Open the modal and wait for a choice
+	 * @returns Chosen task, or undefined when the modal is closed without a choice
+	 */
+	static ask(
+		app: App,
+		options: { conflict: TaskConflict; format: TaskFormat; fileName: string },
+	): Promise<ObsidianTask | undefined> {
+		return new Promise((resolve) => {
+			new ConflictModal(app, { ...options, resolve }).open();
+		});
+	}
+
+	onOpen() {
+		const { local, remote, merged, conflicts } = this.#conflict;
+		let mergedLine = obsidianTaskStringify(merged, this.#format);
+
+		this.titleEl.setText(`Todoist conflict in ${this.#fileName}`);
+		this.contentEl.createEl("p", {
+			text: `The task was changed in the note and in Todoist: ${conflicts
+				.map((field) => FIELD_NAMES[field])
+				.join(", ")}`,
+		});
+
+		new Setting(this.contentEl)
+			.setName("Note")
+			.setDesc(obsidianTaskStringify(local, this.#format))
+			.addButton((button) =>
+				button.setButtonText("Keep note").onClick(() => this.#choose(local)),
+			);
+
+		new Setting(this.contentEl)
+			.setName("Todoist")
+			.setDesc(obsidianTaskStringify(remote, this.#format))
+			.addButton((button) =>
+				button
+					.setButtonText("Keep Todoist")
+					.onClick(() => this.#choose(remote)),
+			);
+
+		new Setting(this.contentEl)
+			.setName("Merge")
+			.setDesc("Edit the merged task line and its description")
+			.addTextArea((textArea) =>
+				textArea.setValue(mergedLine).onChange((value) => {
+					mergedLine = value;
+				}),
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Merge")
+					.setCta()
+					.onClick(() => {
+						const [parseResult] = parseContent(mergedLine.trim(), this.#format);
+
+						if (!parseResult) {
+							new Notice("Merged line is not a task");
+							return;
+						}
+
+						this.#choose({ ...parseResult.task, id: local.id });
+					}),
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+
+		if (!this.#resolved) {
+			this.#resolve(undefined);
+		}
+	}
+
+	#choose(task: ObsidianTask) {
+		this.#resolved = true;
+		this.#resolve(task);
+		this.close();
+	}
+}
@@ -0,0 +1,35 @@
+import { Notice } from "obsidian";
+import type { ObsidianTask } from "./task/obsidian-task.ts";
+
+const NOTICE_DURATION = 1000 * 15;
+
+/**
+ * Tell which tasks of a note were deleted in Todoist, offering to restore
+ * their lines and create the tasks again
+ */
+export function showDeletedNotice({
+	fileName,
+	tasks,
+	restore,
+}: {
+	fileName: string;
+	tasks: ObsidianTask[];
+	restore: () => Promise<void>;
+}) {
+	const notice = new Notice("", NOTICE_DURATION);
+
+	notice.messageEl.createDiv({
+		text:
+			tasks.length === 1
+				? `${fileName}: "${tasks[0].content}" was deleted in Todoist`
+				: `${fileName}: ${tasks.length} tasks were deleted in Todoist`,
+	});
+	notice.messageEl
+		.createEl("button", { text: "Restore" })
+		.addEventListener("click", () => {
+			notice.hide();
+			restore().catch((error: Error) => {
+				new Notice(`${fileName}: failed to restore tasks: ${error.message}`);
+			});
+		});
+}
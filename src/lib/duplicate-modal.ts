@@ -0,0 +1,99 @@
+import { type App, Modal, Setting } from "obsidian";
+import type { DuplicateChoice, DuplicateTask } from "./sync-engine.ts";
+import { isObsidianId } from "./task/is-obsidian-id.ts";
+import { obsidianTaskStringify } from "./task/obsidian-task-stringify.ts";
+import type { TaskFormat } from "./task/task-format.ts";
+
+/**
+ * Ask whether a copied task line becomes a new Todoist task or stays linked
+ * to the task of the original line
+ */
+export class DuplicateModal extends Modal {
+	#duplicate: DuplicateTask;
+	#format: TaskFormat;
+	#fileName: string;
+	#resolve: (choice: DuplicateChoice | undefined) => void;
+	#resolved = false;
+
+	constructor(
+		app: App,
+		{
+			duplicate,
+			format,
+			fileName,
+			resolve,
+		}: {
+			duplicate: DuplicateTask;
+			format: TaskFormat;
+			fileName: string;
+			resolve: (choice: DuplicateChoice | undefined) => void;
+		},
+	) {
+		super(app);
+		this.#duplicate = duplicate;
+		this.#format = format;
+		this.#fileName = fileName;
+		this.#resolve = resolve;
+	}
+
+	/**
+	 * Open the modal and wait for a choice
+	 * @returns Chosen resolution, or undefined when the modal is closed without a choice
+	 */
+	static ask(
+		app: App,
+		options: { duplicate: DuplicateTask; format: TaskFormat; fileName: string },
+	): Promise<DuplicateChoice | undefined> {
+		return new Promise((resolve) => {
+			new DuplicateModal(app, { ...options, resolve }).open();
+		});
+	}
+
+	onOpen() {
+		const { task, elsewhere } = this.#duplicate;
+
+		this.titleEl.setText(`Copied task in ${this.#fileName}`);
+		this.contentEl.createEl("p", {
+			text: `This task line appears ${
+				elsewhere ? "in another synced note too" : "more than once in the note"
+			}. The copy is not synced until you choose:`,
+		});
+		this.contentEl.createEl("p", {
+			text: obsidianTaskStringify({ ...task, id: "" }, this.#format),
+		});
+
+		new Setting(this.contentEl)
+			.setName("Fork")
+			.setDesc("Create a new Todoist task for the copy")
+			.addButton((button) =>
+				button
+					.setButtonText("Fork")
+					.setCta()
+					.onClick(() => this.#choose("fork")),
+			);
+
+		// A task still being created has no Todoist id to share across notes
+		if (!(elsewhere && isObsidianId(task.id))) {
+			new Setting(this.contentEl)
+				.setName("Mirror")
+				.setDesc("Keep every copy linked to one Todoist task")
+				.addButton((button) =>
+					button.setButtonText("Mirror").onClick(() => this.#choose("mirror")),
+				);
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+
+		if (!this.#resolved) {
+			this.#resolve(undefined);
+		}
+	}
+
+	#choose(choice: DuplicateChoice) {
+		this.#resolved = true;
+		this.#resolve(choice);
+		this.close();
+	}
+}
@@ -0,0 +1,411 @@
+import { QueryClient } from "@tanstack/query-core";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FakeTodoist } from "../test/fake-todoist.ts";
+import { setRequestUrlHandler } from "../test/obsidian-stub.ts";
+import { backlinkComment } from "./backlink.ts";
+import { FileSync } from "./file-sync.ts";
+import { importTaskLines, setImportedBaselines } from "./import-tasks.ts";
+import { obsidianFetchAdapter } from "./obsidian-fetch-adapter.ts";
+import { setMutationDefaults } from "./query/set-mutation-defaults.ts";
+import { RequestScheduler } from "./request-scheduler.ts";
+import type { SyncDocument } from "./sync-document.ts";
+import type { ContentOptions } from "./task/content-markdown.ts";
+import type { ObsidianTask } from "./task/obsidian-task.ts";
+import { defaultTaskFormat, type TaskFormat } from "./task/task-format.ts";
+import { applyTextEdits } from "./text-edit.ts";
+import { TodoistSyncApi } from "./todoist-sync-api.ts";
+
+const TASK_ID_REGEX = /%%\[tid::(\w+)\]%%/;
+
+const contentOptions = (): ContentOptions => ({
+	vault: "Notes",
+	wikilinkMode: "link",
+});
+
+/**
+ * Document of a note kept in memory
+ */
+class MemoryDocument implements SyncDocument {
+	content: string;
+
+	constructor(content: string) {
+		this.content = content;
+	}
+
+	async read() {
+		return this.content;
+	}
+
+	async edit(getEdits: Parameters<SyncDocument["edit"]>[0]) {
+		this.content = applyTextEdits(this.content, getEdits(this.content));
+	}
+}
+
+/**
+ * Request flow from FileSync through the query client, the Todoist SDK and
+ * the Obsidian fetch adapter to a fake Todoist server
+ */
+describe("FileSync with a fake Todoist", () => {
+	let todoist: FakeTodoist;
+	let scheduler: RequestScheduler;
+	let todoistApi: TodoistSyncApi;
+	let queryClient: QueryClient;
+	let document: MemoryDocument;
+	let fileSync: FileSync;
+	let restoreDeleted: (() => Promise<void>) | undefined;
+	let removedTasks: ObsidianTask[];
+	let errors: Error[];
+
+	const createFileSync = (
+		content: string,
+		taskFormat: TaskFormat = defaultTaskFormat,
+		{
+			backlink = false,
+			resolveConflict = async () => undefined,
+		}: {
+			backlink?: boolean;
+			resolveConflict?: () => Promise<ObsidianTask | undefined>;
+		} = {},
+	) => {
+		document = new MemoryDocument(content);
+		fileSync = new FileSync({
+			queryClient,
+			todoistApi: () => todoistApi,
+			target: async () => ({ projectId: "inbox" }),
+			taskFormat: () => taskFormat,
+			contentOptions,
+			document,
+			resolveConflict,
+			resolveDuplicate: async () => undefined,
+			onDeleted: (_tasks, restore) => {
+				restoreDeleted = restore;
+			},
+			onRemoved: (tasks) => {
+				removedTasks.push(...tasks);
+			},
+			onError: (error) => {
+				errors.push(error);
+			},
+			...(backlink && {
+				backlink: (taskId: string) =>
+					backlinkComment({ vault: "Notes", file: "Tasks.md", block: taskId }),
+			}),
+		});
+	};
+
+	/** Sync the note and wait for its tasks to get Todoist ids and back-links */
+	const syncNewTasks = async () => {
+		await fileSync.sync();
+		await vi.waitFor(() => expect(document.content).not.toMatch(/tid::ob/));
+		await vi.waitFor(() => expect(queryClient.isMutating()).toBe(0));
+
+		return document.content.match(TASK_ID_REGEX)?.[1] ?? "";
+	};
+
+	/** Read remote changes, like the periodic refetch of task queries */
+	const refetch = () => queryClient.refetchQueries({ queryKey: ["task"] });
+
+	beforeEach(() => {
+		todoist = new FakeTodoist();
+		restoreDeleted = undefined;
+		removedTasks = [];
+		errors = [];
+		setRequestUrlHandler(todoist.requestUrl);
+		scheduler = new RequestScheduler();
+		todoistApi = new TodoistSyncApi("token", {
+			customFetch: scheduler.fetch(obsidianFetchAdapter),
+		});
+		queryClient = new QueryClient({
+			defaultOptions: {
+				queries: { retry: false },
+				mutations: { retry: 3, retryDelay: 10 },
+			},
+		});
+		setMutationDefaults({
+			queryClient,
+			todoistApi: () => todoistApi,
+			contentOptions,
+		});
+	});
+
+	afterEach(async () => {
+		// Requests still queued would reach the server of the next test
+		await vi.waitFor(() => expect(queryClient.isMutating()).toBe(0));
+		fileSync.destroy();
+		queryClient.clear();
+		scheduler.destroy();
+		setRequestUrlHandler(undefined);
+	});
+
+	it("should create new lines in Todoist and replace their temporary ids", async () => {
+		createFileSync("# Shopping\n- [ ] Buy milk\n- [ ] Buy bread");
+
+		await fileSync.sync();
+		await vi.waitFor(() =>
+			expect(document.content).toBe(
+				"# Shopping\n- [ ] Buy milk %%[tid::1]%%\n- [ ] Buy bread %%[tid::2]%%",
+			),
+		);
+
+		const syncRequests = todoist.requests.filter(({ commands }) => commands);
+
+		expect(syncRequests).toHaveLength(1);
+		expect(syncRequests[0].commands?.map(({ type }) => type)).toEqual([
+			"item_add",
+			"item_add",
+		]);
+		expect(todoist.task("1")).toMatchObject({
+			content: "Buy milk",
+			project_id: "inbox",
+		});
+	});
+
+	it("should link created tasks back to the block of their line", async () => {
+		createFileSync("- [ ] Buy milk", defaultTaskFormat, { backlink: true });
+
+		const taskId = await syncNewTasks();
+
+		expect(document.content).toBe(
+			`- [ ] Buy milk %%[tid::${taskId}]%% ^${taskId}`,
+		);
+		expect(todoist.comments(taskId).map(({ content }) => content)).toEqual([
+			`[Open in Obsidian](obsidian://todoister-open?vault=Notes&file=Tasks.md&block=${taskId})`,
+		]);
+	});
+
+	it("should remove the line of a task deleted in Todoist", async () => {
+		createFileSync("- [ ] Buy milk\n- [ ] Buy bread");
+
+		const taskId = await syncNewTasks();
+
+		todoist.deleteTask(taskId);
+		await refetch();
+
+		await vi.waitFor(() =>
+			expect(document.content).toBe("- [ ] Buy bread %%[tid::2]%%"),
+		);
+	});
+
+	it("should recreate a deleted task restored from the notice", async () => {
+		createFileSync("- [ ] Buy milk");
+
+		const taskId = await syncNewTasks();
+
+		todoist.deleteTask(taskId);
+		await refetch();
+		await vi.waitFor(() => expect(restoreDeleted).toBeDefined());
+
+		await restoreDeleted?.();
+
+		await vi.waitFor(() =>
+			expect(document.content).toBe("- [ ] Buy milk %%[tid::2]%%\n"),
+		);
+		expect(todoist.task("2")?.content).toBe("Buy milk");
+	});
+
+	it("should report tasks whose lines were removed from the note", async () => {
+		createFileSync("- [ ] Buy milk\n- [ ] Buy bread");
+
+		await syncNewTasks();
+		document.content = document.content.split("\n")[1];
+		await fileSync.sync();
+
+		expect(removedTasks).toMatchObject([{ id: "1", content: "Buy milk" }]);
+		expect(fileSync.has("1")).toBe(false);
+		expect(fileSync.has("2")).toBe(true);
+	});
+
+	it("should not report lines switched to an unmapped checkbox", async () => {
+		createFileSync("- [ ] Buy milk");
+
+		await syncNewTasks();
+		document.content = document.content.replace("[ ]", "[?]");
+		await fileSync.sync();
+
+		expect(removedTasks).toEqual([]);
+		expect(fileSync.has("1")).toBe(false);
+	});
+
+	it("should send edits of imported lines", async () => {
+		const taskId = todoist.addTask({ content: "Buy milk", priority: 4 });
+		const lines = await importTaskLines({
+			queryClient,
+			todoistApi: () => todoistApi,
+			source: { projectId: "inbox" },
+			content: "",
+			format: defaultTaskFormat,
+			contentOptions: contentOptions(),
+		});
+
+		createFileSync(lines.join("\n"));
+		setImportedBaselines(queryClient, lines, defaultTaskFormat);
+		await fileSync.sync();
+
+		document.content = document.content.replace("Buy milk", "Buy oat milk");
+		await fileSync.sync();
+
+		await vi.waitFor(() =>
+			expect(todoist.task(taskId)?.content).toBe("Buy oat milk"),
+		);
+		expect(document.content).toBe(`- [ ] Buy oat milk ⏫ %%[tid::${taskId}]%%`);
+	});
+
+	it("should toggle checks both ways", async () => {
+		createFileSync("- [ ] Buy milk");
+
+		const taskId = await syncNewTasks();
+
+		document.content = document.content.replace("[ ]", "[x]");
+		await fileSync.sync();
+
+		await vi.waitFor(() => expect(todoist.task(taskId)?.checked).toBe(true));
+
+		todoist.updateTask(taskId, { checked: false });
+		await refetch();
+
+		await vi.waitFor(() =>
+			expect(document.content).toBe(`- [ ] Buy milk %%[tid::${taskId}]%%`),
+		);
+	});
+
+	it("should sync descriptions both ways", async () => {
+		createFileSync("- [ ] Buy milk\n  Oat milk");
+
+		const taskId = await syncNewTasks();
+
+		expect(todoist.task(taskId)?.description).toBe("Oat milk");
+
+		document.content = `${document.content}, no sugar`;
+		await fileSync.sync();
+		await vi.waitFor(() =>
+			expect(todoist.task(taskId)?.description).toBe("Oat milk, no sugar"),
+		);
+
+		todoist.updateTask(taskId, { description: "Soy milk\nTwo packs" });
+		await refetch();
+
+		await vi.waitFor(() =>
+			expect(document.content).toBe(
+				`- [ ] Buy milk %%[tid::${taskId}]%%\n  Soy milk\n  Two packs`,
+			),
+		);
+	});
+
+	it("should ask again about a conflict whose choice failed", async () => {
+		const resolveConflict = vi.fn(async () => {
+			throw new Error("Modal failed");
+		});
+
+		createFileSync("- [ ] Buy milk", defaultTaskFormat, { resolveConflict });
+
+		const taskId = await syncNewTasks();
+
+		document.content = document.content.replace("Buy milk", "Buy soy milk");
+		todoist.updateTask(taskId, { content: "Buy oat milk" });
+		await refetch();
+
+		await vi.waitFor(() => expect(errors).toHaveLength(1));
+		expect(errors[0].message).toBe("Modal failed");
+
+		await fileSync.sync();
+
+		await vi.waitFor(() => expect(resolveConflict).toHaveBeenCalledTimes(2));
+	});
+
+	it("should send wikilinks as note links without rewriting the line", async () => {
+		createFileSync("- [ ] Read [[Books/Dune|Dune]] ![[cover.png]]");
+
+		const taskId = await syncNewTasks();
+		const link = "[Dune](obsidian://open?vault=Notes&file=Books%2FDune)";
+
+		expect(todoist.task(taskId)?.content).toBe(`Read ${link}`);
+
+		await refetch();
+		await fileSync.sync();
+
+		expect(document.content).toBe(
+			`- [ ] Read [[Books/Dune|Dune]] ![[cover.png]] %%[tid::${taskId}]%%`,
+		);
+
+		todoist.updateTask(taskId, { content: `Reread ${link}` });
+		await refetch();
+
+		await vi.waitFor(() =>
+			expect(document.content).toBe(
+				`- [ ] Reread [[Books/Dune|Dune]] %%[tid::${taskId}]%%`,
+			),
+		);
+	});
+
+	it("should show Todoist comments and post typed ones", async () => {
+		createFileSync("- [ ] Review PR", {
+			...defaultTaskFormat,
+			commentsMode: "callout",
+		});
+
+		const taskId = await syncNewTasks();
+		const commentId = todoist.addComment(taskId, "Please add tests");
+
+		await refetch();
+		await vi.waitFor(() =>
+			expect(document.content).toBe(
+				`- [ ] Review PR %%[tid::${taskId}]%%\n  > [!todoist-comments]- Comments\n  > Please add tests %%[cid::${commentId}]%%`,
+			),
+		);
+
+		document.content = `${document.content}\n  > Done`;
+		await fileSync.sync();
+
+		await vi.waitFor(() =>
+			expect(document.content).toMatch(/ {2}> Done %%\[cid::\d+\]%%$/),
+		);
+		expect(todoist.comments(taskId).map(({ content }) => content)).toEqual([
+			"Please add tests",
+			"Done",
+		]);
+	});
+
+	it("should read comments once and later changes with the task syncs", async () => {
+		createFileSync("- [ ] Review PR", {
+			...defaultTaskFormat,
+			commentsMode: "callout",
+		});
+
+		const taskId = await syncNewTasks();
+
+		await vi.waitFor(() =>
+			expect(queryClient.isFetching({ queryKey: ["task-comments"] })).toBe(0),
+		);
+
+		const commentId = todoist.addComment(taskId, "Please add tests");
+
+		await queryClient.invalidateQueries();
+		await vi.waitFor(() =>
+			expect(document.content).toContain(
+				`> Please add tests %%[cid::${commentId}]%%`,
+			),
+		);
+		expect(
+			todoist.requests.filter(({ url }) => url.includes("/comments")),
+		).toHaveLength(1);
+	});
+
+	it("should retry requests after a 429 response", async () => {
+		createFileSync("- [ ] Buy milk");
+		todoist.rateLimit(1, "0.05");
+
+		await syncNewTasks();
+
+		expect(
+			todoist.requests.map(({ status, commands }) => [
+				status,
+				commands?.length,
+			]),
+		).toEqual([
+			[429, 1],
+			[200, 1],
+			[200, undefined],
+		]);
+		expect(todoist.task("1")?.content).toBe("Buy milk");
+	});
+});
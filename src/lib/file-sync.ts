@@ -0,0 +1,799 @@
+import type { MoveTaskArgs, Task } from "@doist/todoist-api-typescript";
+import type {
+	MutationObserver,
+	QueryClient,
+	QueryObserver,
+	QueryObserverResult,
+} from "@tanstack/query-core";
+import { blockRefEdit, isBacklinkComment } from "./backlink.ts";
+import { markedTaskIds } from "./parse-content.ts";
+import {
+	type AddCommentVariables,
+	mutationAddComment,
+	postingComments,
+} from "./query/mutation-add-comment.ts";
+import {
+	type AddTaskVariables,
+	mutationAddTask,
+	pendingAddTask,
+	todoistIdKey,
+} from "./query/mutation-add-task.ts";
+import { mutationDeleteTask } from "./query/mutation-delete-task.ts";
+import {
+	type MoveTaskVariables,
+	mutationMoveTask,
+} from "./query/mutation-move-task.ts";
+import {
+	mutationSetCheckedTask,
+	type SetCheckedTaskVariables,
+} from "./query/mutation-set-checked-task.ts";
+import {
+	mutationUpdateTask,
+	type UpdateTaskVariables,
+} from "./query/mutation-update-task.ts";
+import { queryTask, queryTaskKey, receiveTask } from "./query/query-task.ts";
+import { queryTaskComments } from "./query/query-task-comments.ts";
+import {
+	getTaskBaseline,
+	removeTaskBaseline,
+	setTaskBaseline,
+} from "./query/task-baseline.ts";
+import { getMirroredTasks, setTaskMirrored } from "./query/task-mirror.ts";
+import type { SyncDocument } from "./sync-document.ts";
+import {
+	type DeletedLine,
+	type DuplicateChoice,
+	type DuplicateTask,
+	fromRemote,
+	planFork,
+	planResolved,
+	planRestore,
+	planSync,
+	type RemoteCommand,
+	type RemoteTaskState,
+	type SyncPlan,
+	type TaskConflict,
+	type TaskPlacement,
+} from "./sync-engine.ts";
+import type { ContentOptions } from "./task/content-markdown.ts";
+import { generateObsidianId } from "./task/generate-obsidian-id.ts";
+import { isObsidianId } from "./task/is-obsidian-id.ts";
+import type { ObsidianTask } from "./task/obsidian-task.ts";
+import { formatLocalDate } from "./task/recurrence.ts";
+import type { TaskComment } from "./task/task-comment.ts";
+import type { TaskFormat } from "./task/task-format.ts";
+import { isStatusLabel } from "./task/task-status.ts";
+import type { TaskTarget } from "./task-target.ts";
+import { replaceAllEdits } from "./text-edit.ts";
+import type { TodoistSyncApi } from "./todoist-sync-api.ts";
+
+interface FileSyncItemTodoist {
+	/** Parent task id at the last sync, to detect re-indented lines */
+	parentId?: string;
+	/** Heading above the task at the last sync, to detect lines moved between sections */
+	heading?: string;
+	query: Pick<
+		QueryObserver<ObsidianTask | { deleted: true; id: string }>,
+		"subscribe" | "destroy" | "getCurrentResult" | "refetch"
+	>;
+	update: Pick<MutationObserver<unknown, Error, UpdateTaskVariables>, "mutate">;
+	toggleCheck: Pick<
+		MutationObserver<unknown, Error, SetCheckedTaskVariables>,
+		"mutate"
+	>;
+	move: Pick<MutationObserver<unknown, Error, MoveTaskVariables>, "mutate">;
+	/** Comments of the task, observed in the callout comments mode */
+	comments?: Pick<
+		QueryObserver<TaskComment[]>,
+		"subscribe" | "destroy" | "getCurrentResult"
+	>;
+	addComment: Pick<
+		MutationObserver<string, Error, AddCommentVariables>,
+		"mutate"
+	>;
+}
+
+interface FileSyncItemObsidian {
+	add: Pick<MutationObserver<unknown, Error, AddTaskVariables>, "mutate">;
+}
+
+type FileSyncItem = FileSyncItemTodoist | FileSyncItemObsidian;
+
+function isObsidianItem(item: FileSyncItem): item is FileSyncItemObsidian {
+	return "add" in item;
+}
+
+/**
+ * Task index of a single synced file. Keeps one set of query and mutation
+ * observers per task and applies the plans of the sync engine: text edits
+ * through a SyncDocument, which is either the active editor or the vault
+ * file itself, and commands through the task mutations.
+ */
+export class FileSync {
+	#queryClient: QueryClient;
+	#todoistApi: () => TodoistSyncApi;
+	#target: (heading?: string) => Promise<TaskTarget>;
+	#taskFormat: () => TaskFormat;
+	#contentOptions: () => ContentOptions;
+	#document: SyncDocument;
+	#resolveConflict: (
+		conflict: TaskConflict,
+	) => Promise<ObsidianTask | undefined>;
+	#onDeleted?: (tasks: ObsidianTask[], restore: () => Promise<void>) => void;
+	#onRemoved?: (tasks: ObsidianTask[]) => void;
+	#resolveDuplicate: (
+		duplicate: DuplicateTask,
+	) => Promise<DuplicateChoice | undefined>;
+	#isElsewhere?: (taskId: string) => boolean;
+	#backlink?: (taskId: string) => string;
+	#onError?: (error: Error) => void;
+	#cache = new Map<string, FileSyncItem>();
+	/** Tasks whose conflict modal is open */
+	#conflicts = new Set<string>();
+	/** Conflicts dismissed without a choice, not asked again until a side changes */
+	#dismissedConflicts = new Map<string, string>();
+	/** Copied tasks whose duplicate modal is open or was dismissed */
+	#duplicates = new Set<string>();
+	/** Created Todoist ids by temporary id, waiting to be written */
+	#createdIds = new Map<string, string>();
+	#replacingIds?: Promise<Set<string>>;
+	#destroyed = false;
+
+	constructor({
+		queryClient,
+		todoistApi,
+		target,
+		taskFormat,
+		contentOptions,
+		document,
+		resolveConflict,
+		onDeleted,
+		onRemoved,
+		resolveDuplicate,
+		isElsewhere,
+		backlink,
+		onError,
+	}: {
+		queryClient: QueryClient;
+		todoistApi: () => TodoistSyncApi;
+		target: (heading?: string) => Promise<TaskTarget>;
+		taskFormat: () => TaskFormat;
+		contentOptions: () => ContentOptions;
+		document: SyncDocument;
+		resolveConflict: (
+			conflict: TaskConflict,
+		) => Promise<ObsidianTask | undefined>;
+		/** Called with tasks deleted in Todoist and a function restoring their lines */
+		onDeleted?: (tasks: ObsidianTask[], restore: () => Promise<void>) => void;
+		/** Called with Todoist tasks whose lines were removed from the note */
+		onRemoved?: (tasks: ObsidianTask[]) => void;
+		resolveDuplicate: (
+			duplicate: DuplicateTask,
+		) => Promise<DuplicateChoice | undefined>;
+		/** Whether another synced note has a line of the task */
+		isElsewhere?: (taskId: string) => boolean;
+		/** Comment linking a created task back to its line */
+		backlink?: (taskId: string) => string;
+		/** Called with errors of applying a conflict choice */
+		onError?: (error: Error) => void;
+	}) {
+		this.#queryClient = queryClient;
+		this.#todoistApi = todoistApi;
+		this.#target = target;
+		this.#taskFormat = taskFormat;
+		this.#contentOptions = contentOptions;
+		this.#document = document;
+		this.#resolveConflict = resolveConflict;
+		this.#onDeleted = onDeleted;
+		this.#onRemoved = onRemoved;
+		this.#resolveDuplicate = resolveDuplicate;
+		this.#isElsewhere = isElsewhere;
+		this.#backlink = backlink;
+		this.#onError = onError;
+	}
+
+	get document(): SyncDocument {
+		return this.#document;
+	}
+
+	set document(document: SyncDocument) {
+		this.#document = document;
+	}
+
+	/**
+	 * Read the document, assign ids to new tasks and reconcile the task index
+	 */
+	async sync(): Promise<void> {
+		if (this.#destroyed) return;
+
+		const plan = await this.#run("local");
+
+		if (plan) {
+			this.#update(plan, await this.#document.read());
+		}
+	}
+
+	/**
+	 * Whether a task has a line in the document at the last sync
+	 */
+	has(taskId: string): boolean {
+		return this.#cache.has(taskId);
+	}
+
+	destroy(): void {
+		this.#destroyed = true;
+
+		for (const cacheItem of this.#cache.values()) {
+			if (!isObsidianItem(cacheItem)) {
+				cacheItem.query.destroy();
+				cacheItem.comments?.destroy();
+			}
+		}
+
+		this.#cache.clear();
+	}
+
+	/**
+	 * Plan a sync against the current document content and apply it
+	 */
+	async #run(
+		source: "local" | "remote",
+		taskIds?: ReadonlySet<string>,
+	): Promise<SyncPlan | undefined> {
+		let plan: SyncPlan | undefined;
+
+		// The document may call back more than once, only the last plan is applied
+		await this.#document.edit((content) => {
+			plan = planSync({
+				...this.#syncState(),
+				content,
+				format: this.#taskFormat(),
+				source,
+				taskIds,
+				skip: this.#conflicts,
+				dismissedConflicts: this.#dismissedConflicts,
+				mirrored: getMirroredTasks(this.#queryClient),
+				isElsewhere: this.#isElsewhere,
+				postingComments: postingComments(this.#queryClient),
+				today: formatLocalDate(new Date()),
+			});
+
+			return plan.edits;
+		});
+
+		if (!plan || this.#destroyed) return undefined;
+
+		this.#apply(plan);
+
+		return plan;
+	}
+
+	/**
+	 * Todoist state, baselines and positions of the tasks in the index
+	 */
+	#syncState() {
+		const remote = new Map<string, RemoteTaskState>();
+		const baselines = new Map<string, ObsidianTask>();
+		const placements = new Map<string, TaskPlacement>();
+		const comments = new Map<string, TaskComment[]>();
+
+		for (const [taskId, cacheItem] of this.#cache) {
+			if (isObsidianItem(cacheItem)) {
+				placements.set(taskId, {});
+				continue;
+			}
+
+			const { data, isStale } = cacheItem.query.getCurrentResult();
+			const baseline = getTaskBaseline(this.#queryClient, taskId);
+
+			placements.set(taskId, {
+				parentId: cacheItem.parentId,
+				heading: cacheItem.heading,
+			});
+
+			if (data) {
+				remote.set(
+					taskId,
+					"deleted" in data
+						? { deleted: true }
+						: { task: data, stale: isStale },
+				);
+			}
+
+			if (baseline) {
+				baselines.set(taskId, baseline);
+			}
+
+			const taskComments = cacheItem.comments?.getCurrentResult().data;
+
+			if (taskComments) {
+				comments.set(
+					taskId,
+					taskComments.filter(({ content }) => !isBacklinkComment(content)),
+				);
+			}
+		}
+
+		return { remote, baselines, placements, comments };
+	}
+
+	#apply(plan: SyncPlan) {
+		for (const task of plan.baselines) {
+			setTaskBaseline(this.#queryClient, task);
+		}
+
+		for (const taskId of plan.deleted) {
+			removeTaskBaseline(this.#queryClient, taskId);
+			this.#delete(taskId);
+		}
+
+		if (plan.deletedLines.length > 0) {
+			const { deletedLines } = plan;
+
+			this.#onDeleted?.(
+				deletedLines.map(({ task }) => task),
+				() => this.#restore(deletedLines),
+			);
+		}
+
+		for (const [taskId, { parentId, heading }] of plan.tasks) {
+			const cacheItem = this.#todoistItem(taskId);
+
+			if (cacheItem) {
+				cacheItem.parentId = parentId;
+				cacheItem.heading = heading;
+			}
+		}
+
+		for (const command of plan.commands) {
+			this.#send(command);
+		}
+
+		for (const taskId of plan.stale) {
+			// Compare with fresh Todoist data, the refetched task is reconciled on update
+			this.#todoistItem(taskId)?.query.refetch();
+		}
+
+		for (const conflict of plan.conflicts) {
+			this.#ask(conflict);
+		}
+
+		for (const duplicate of plan.duplicates) {
+			this.#askDuplicate(duplicate);
+		}
+	}
+
+	/**
+	 * Create items for tasks new to the index, drop items of removed lines
+	 * @param content - Document content, tasks whose id is still in it are
+	 * not reported as removed
+	 */
+	#update(plan: SyncPlan, content: string) {
+		for (const [taskId, { task, parentId, heading }] of plan.tasks) {
+			if (!this.#cache.has(taskId) && !isObsidianId(taskId)) {
+				this.#cache.set(
+					taskId,
+					this.#createTodoistItem(task, parentId, heading),
+				);
+			}
+		}
+
+		const removed: ObsidianTask[] = [];
+		const markedIds = markedTaskIds(content);
+
+		for (const [taskId, cacheItem] of this.#cache) {
+			if (plan.tasks.has(taskId)) continue;
+
+			const data = isObsidianItem(cacheItem)
+				? undefined
+				: cacheItem.query.getCurrentResult().data;
+
+			if (data && !("deleted" in data) && !markedIds.has(taskId)) {
+				removed.push(data);
+			}
+
+			this.#delete(taskId);
+		}
+
+		if (removed.length > 0) {
+			this.#onRemoved?.(removed);
+		}
+
+		const showComments = this.#taskFormat().commentsMode === "callout";
+
+		for (const [taskId, cacheItem] of this.#cache) {
+			if (isObsidianItem(cacheItem)) continue;
+
+			if (showComments && !cacheItem.comments) {
+				cacheItem.comments = this.#createCommentsQuery(taskId);
+			} else if (!showComments && cacheItem.comments) {
+				cacheItem.comments.destroy();
+				cacheItem.comments = undefined;
+			}
+		}
+	}
+
+	#send(command: RemoteCommand) {
+		if (command.type === "add") {
+			const { task, parentId, heading } = command;
+
+			this.#cache.set(
+				task.id,
+				this.#createObsidianItem(task, parentId, heading),
+			);
+			return;
+		}
+
+		// The line left the index with the plan, its item is gone
+		if (command.type === "delete") {
+			mutationDeleteTask({
+				queryClient: this.#queryClient,
+				taskId: command.taskId,
+			}).mutate({});
+			return;
+		}
+
+		const cacheItem = this.#todoistItem(command.taskId);
+
+		if (!cacheItem) return;
+
+		switch (command.type) {
+			case "update":
+				cacheItem.update.mutate(
+					command.changes.labels === undefined
+						? command.changes
+						: {
+								...command.changes,
+								labels: this.#withUnsyncedLabels(
+									cacheItem,
+									command.changes.labels,
+								),
+							},
+				);
+				break;
+			case "set-checked":
+				cacheItem.toggleCheck.mutate({ checked: command.checked });
+				break;
+			case "move":
+				this.#moveArgs(command.parentId, command.heading).then(
+					(args) => cacheItem.move.mutate(args),
+					() => {}, // Target errors are reported by the resolver
+				);
+				break;
+			case "comment":
+				cacheItem.addComment.mutate(command.comment);
+				break;
+		}
+	}
+
+	/**
+	 * Labels of a label update. Without label sync the note only has labels
+	 * written as checkbox characters, other Todoist labels are kept.
+	 */
+	#withUnsyncedLabels(
+		{ query }: FileSyncItemTodoist,
+		labels: string[] | null,
+	): string[] | null {
+		const format = this.#taskFormat();
+
+		if (format.tagsMode === "labels") return labels;
+
+		const { data } = query.getCurrentResult();
+		const unsynced =
+			data && !("deleted" in data)
+				? (data.labels ?? []).filter((label) => !isStatusLabel(label, format))
+				: [];
+		const merged = [...unsynced, ...(labels ?? [])];
+
+		return merged.length > 0 ? merged : null;
+	}
+
+	/**
+	 * Leave a conflict to the user, apply their choice or remember the dismissal
+	 */
+	#ask({ signature, ...conflict }: SyncPlan["conflicts"][number]) {
+		const taskId = conflict.local.id;
+
+		this.#conflicts.add(taskId);
+		this.#resolveConflict(conflict)
+			.then(async (resolved) => {
+				if (this.#destroyed) return;
+
+				if (!resolved) {
+					this.#dismissedConflicts.set(taskId, signature);
+					return;
+				}
+
+				let plan: SyncPlan | undefined;
+
+				this.#dismissedConflicts.delete(taskId);
+				await this.#document.edit((content) => {
+					plan = planResolved({
+						content,
+						format: this.#taskFormat(),
+						remote: conflict.remote,
+						task: resolved,
+						mirrored: getMirroredTasks(this.#queryClient),
+					});
+
+					return plan.edits;
+				});
+
+				if (plan && !this.#destroyed) {
+					this.#apply(plan);
+				}
+			})
+			// Not dismissed, the next sync asks again
+			.catch((error: Error) => this.#onError?.(error))
+			.finally(() => this.#conflicts.delete(taskId));
+	}
+
+	/**
+	 * Leave a copied task line to the user, fork or mirror it as chosen.
+	 * A dismissed copy stays unsynced and is not asked about again.
+	 */
+	#askDuplicate(duplicate: DuplicateTask) {
+		const taskId = duplicate.task.id;
+
+		if (this.#duplicates.has(taskId)) return;
+
+		this.#duplicates.add(taskId);
+		this.#resolveDuplicate(duplicate).then(async (choice) => {
+			if (this.#destroyed || !choice) return;
+
+			this.#duplicates.delete(taskId);
+
+			if (choice === "mirror") {
+				setTaskMirrored(this.#queryClient, taskId);
+			} else {
+				await this.#document.edit((content) =>
+					planFork({
+						content,
+						format: this.#taskFormat(),
+						taskId,
+						elsewhere: duplicate.elsewhere,
+					}),
+				);
+			}
+
+			await this.sync();
+		});
+	}
+
+	/**
+	 * Put back lines of tasks deleted in Todoist and create the tasks again
+	 */
+	async #restore(deletedLines: DeletedLine[]) {
+		if (this.#destroyed) return;
+
+		await this.#document.edit((content) => planRestore(content, deletedLines));
+		await this.sync();
+	}
+
+	#todoistItem(taskId: string): FileSyncItemTodoist | undefined {
+		const cacheItem = this.#cache.get(taskId);
+
+		return cacheItem && !isObsidianItem(cacheItem) ? cacheItem : undefined;
+	}
+
+	/**
+	 * Where to move a task, under its parent or to the top of the note target
+	 */
+	async #moveArgs(
+		parentId: string | undefined,
+		heading: string | undefined,
+	): Promise<MoveTaskArgs> {
+		if (parentId) {
+			return { parentId };
+		}
+
+		const { projectId, sectionId } = await this.#target(heading);
+
+		return sectionId ? { sectionId } : { projectId };
+	}
+
+	#delete(id: string) {
+		const cacheItem = this.#cache.get(id);
+
+		if (!cacheItem) return;
+
+		if (!isObsidianItem(cacheItem)) {
+			cacheItem.query.destroy();
+			cacheItem.comments?.destroy();
+		}
+
+		this.#cache.delete(id);
+	}
+
+	#createTodoistItem(
+		task: ObsidianTask,
+		parentId?: string,
+		heading?: string,
+	): FileSyncItemTodoist {
+		const cacheItem: FileSyncItemTodoist = {
+			parentId,
+			heading,
+			query: queryTask({
+				queryClient: this.#queryClient,
+				taskId: task.id,
+				todoistApi: this.#todoistApi,
+				contentOptions: this.#contentOptions,
+				initialData: task,
+			}),
+			update: mutationUpdateTask({
+				queryClient: this.#queryClient,
+				taskId: task.id,
+			}),
+			toggleCheck: mutationSetCheckedTask({
+				queryClient: this.#queryClient,
+				taskId: task.id,
+			}),
+			move: mutationMoveTask({
+				queryClient: this.#queryClient,
+				taskId: task.id,
+			}),
+			addComment: mutationAddComment({
+				queryClient: this.#queryClient,
+				taskId: task.id,
+			}),
+		};
+
+		cacheItem.query.subscribe(this.#onQueryUpdate);
+
+		return cacheItem;
+	}
+
+	/**
+	 * Observe the comments of a task, each change is written into its callout
+	 */
+	#createCommentsQuery(taskId: string): FileSyncItemTodoist["comments"] {
+		const comments = queryTaskComments({
+			queryClient: this.#queryClient,
+			taskId,
+			todoistApi: this.#todoistApi,
+		});
+
+		comments.subscribe(async ({ data, status }) => {
+			if (this.#destroyed || !data || status !== "success") return;
+
+			await this.#run("remote", new Set([taskId]));
+		});
+
+		return comments;
+	}
+
+	#createObsidianItem(
+		{ id, ...task }: ObsidianTask,
+		parentId?: string,
+		heading?: string,
+	): FileSyncItemObsidian {
+		const add = mutationAddTask({
+			queryClient: this.#queryClient,
+			taskId: id,
+		});
+
+		// A temporary id left in the note by a restart may be created already,
+		// or still queued in the restored mutation cache
+		const createdId = this.#queryClient.getQueryData<string>(todoistIdKey(id));
+		const added: Promise<string> = createdId
+			? Promise.resolve(createdId)
+			: (
+					pendingAddTask(this.#queryClient, id) ??
+					// Sub-tasks are created under their parent, whatever heading they are in
+					this.#target(parentId ? undefined : heading).then((target) =>
+						add.mutate({ ...task, ...target, parentId }),
+					)
+				).then(({ id: todoistId }) => todoistId);
+
+		added
+			.then(async (todoistId) => {
+				if (this.#destroyed) return;
+
+				if (await this.#replaceId(id, todoistId)) {
+					const cachedTask = this.#queryClient.getQueryData<
+						Task | ObsidianTask
+					>(queryTaskKey(todoistId));
+					const createdTask = fromRemote(
+						cachedTask
+							? receiveTask(
+									this.#queryClient,
+									cachedTask,
+									this.#contentOptions(),
+								)
+							: { ...task, id: todoistId },
+						this.#taskFormat(),
+					);
+					const todoistParentId =
+						parentId && isObsidianId(parentId)
+							? this.#queryClient.getQueryData<string>(todoistIdKey(parentId))
+							: parentId;
+
+					setTaskBaseline(this.#queryClient, createdTask);
+
+					const cacheItem = this.#createTodoistItem(
+						createdTask,
+						todoistParentId,
+						heading,
+					);
+
+					this.#cache.set(todoistId, cacheItem);
+
+					// Posted once the line has the block reference it points at
+					if (this.#backlink) {
+						cacheItem.addComment.mutate({
+							id: generateObsidianId(),
+							content: this.#backlink(todoistId),
+						});
+					}
+
+					await this.sync(); // If task created checked
+				}
+
+				this.#delete(id);
+			})
+			.catch(() => {
+				// Forget the failed task, so the next sync tries to create it again
+				this.#delete(id);
+			});
+
+		return {
+			add,
+		};
+	}
+
+	/**
+	 * Replace a temporary id with the created Todoist id. Tasks sent in one
+	 * Sync API batch are created together, their ids are written in one edit.
+	 * @returns Whether the temporary id was found in the note
+	 */
+	#replaceId(obsidianId: string, todoistId: string): Promise<boolean> {
+		this.#createdIds.set(obsidianId, todoistId);
+
+		this.#replacingIds ??= new Promise((resolve) => setTimeout(resolve)).then(
+			async () => {
+				const createdIds = [...this.#createdIds];
+				const replaced = new Set<string>();
+
+				this.#createdIds.clear();
+				this.#replacingIds = undefined;
+
+				await this.#document.edit((content) => {
+					replaced.clear();
+
+					return createdIds.flatMap(([temporaryId, createdId]) => {
+						const edits = replaceAllEdits(content, temporaryId, createdId);
+
+						if (edits.length === 0) {
+							return [];
+						}
+
+						replaced.add(temporaryId);
+
+						// The block the back-link of the created task points at
+						const blockRef = this.#backlink
+							? blockRefEdit(content, temporaryId, createdId)
+							: undefined;
+
+						return blockRef ? [...edits, blockRef] : edits;
+					});
+				});
+
+				return replaced;
+			},
+		);
+
+		return this.#replacingIds.then((replaced) => replaced.has(obsidianId));
+	}
+
+	#onQueryUpdate = async ({
+		data: todoistTask,
+		status,
+		fetchStatus,
+	}: QueryObserverResult<ObsidianTask | { deleted: true; id: string }>) => {
+		if (this.#destroyed) return;
+
+		if (!todoistTask || status !== "success" || fetchStatus !== "idle") return;
+
+		await this.#run("remote", new Set([todoistTask.id]));
+	};
+}
@@ -0,0 +1,122 @@
+import type { TodoistApi } from "@doist/todoist-api-typescript";
+import type { QueryClient, QueryObserverResult } from "@tanstack/query-core";
+import { MarkdownRenderChild } from "obsidian";
+import { mutationSetCheckedTask } from "./query/mutation-set-checked-task.ts";
+import {
+	queryFilterTasks,
+	queryFilterTasksKey,
+} from "./query/query-filter-tasks.ts";
+import type { ObsidianTask } from "./task/obsidian-task.ts";
+
+/**
+ * Rendered `todoister` code block, a live list of the tasks matching
+ * the Todoist filter written in the block
+ */
+export class FilterBlock extends MarkdownRenderChild {
+	#queryClient: QueryClient;
+	#todoistApi: () => TodoistApi;
+	#filter: string;
+
+	constructor(
+		containerEl: HTMLElement,
+		{
+			queryClient,
+			todoistApi,
+			filter,
+		}: {
+			queryClient: QueryClient;
+			todoistApi: () => TodoistApi;
+			filter: string;
+		},
+	) {
+		super(containerEl);
+		this.#queryClient = queryClient;
+		this.#todoistApi = todoistApi;
+		this.#filter = filter.trim();
+	}
+
+	onload() {
+		if (!this.#filter) {
+			this.#renderMessage("Empty Todoist filter");
+			return;
+		}
+
+		const query = queryFilterTasks({
+			queryClient: this.#queryClient,
+			todoistApi: this.#todoistApi,
+			filter: this.#filter,
+		});
+
+		this.register(query.subscribe(this.#render));
+		this.register(() => query.destroy());
+		this.#render(query.getCurrentResult());
+	}
+
+	#render = ({ data, status }: QueryObserverResult<ObsidianTask[]>) => {
+		if (!data) {
+			this.#renderMessage(
+				status === "error"
+					? "Failed to load Todoist tasks"
+					: "Loading Todoist tasks...",
+			);
+			return;
+		}
+
+		if (data.length === 0) {
+			this.#renderMessage("No Todoist tasks");
+			return;
+		}
+
+		this.containerEl.empty();
+
+		const listEl = this.containerEl.createEl("ul", {
+			cls: "contains-task-list",
+		});
+
+		for (const task of data) {
+			this.#renderTask(listEl, task);
+		}
+	};
+
+	#renderTask(listEl: HTMLElement, task: ObsidianTask) {
+		const itemEl = listEl.createEl("li", { cls: "task-list-item" });
+		const checkboxEl = itemEl.createEl("input", {
+			cls: "task-list-item-checkbox",
+			type: "checkbox",
+		});
+
+		checkboxEl.checked = task.checked;
+		itemEl.toggleClass("is-checked", task.checked);
+		itemEl.appendText(task.content);
+
+		if (task.dueDate) {
+			itemEl.createSpan({ text: ` 📅 ${task.dueDate}` });
+		}
+
+		checkboxEl.addEventListener("change", () => {
+			const { checked } = checkboxEl;
+
+			itemEl.toggleClass("is-checked", checked);
+			mutationSetCheckedTask({
+				queryClient: this.#queryClient,
+				taskId: task.id,
+			})
+				.mutate({ checked })
+				.then(
+					() =>
+						this.#queryClient.invalidateQueries({
+							queryKey: queryFilterTasksKey(this.#filter),
+						}),
+					() => {
+						checkboxEl.checked = !checked;
+						itemEl.toggleClass("is-checked", !checked);
+					},
+				);
+		});
+	}
+
+	#renderMessage(text: string) {
+		this.containerEl.empty();
+		this.containerEl.createDiv({ text, cls: "todoister-filter-message" });
+	}
+}
@@ -0,0 +1,59 @@
+import { type App, SuggestModal } from "obsidian";
+import type { TaskSource } from "./query/fetch-tasks.ts";
+
+type ImportSuggestion =
+	| { type: "project"; id: string; name: string }
+	| { type: "filter"; query: string };
+
+/**
+ * Ask for a Todoist project to import, or take the typed text as a filter
+ */
+export class ImportModal extends SuggestModal<ImportSuggestion> {
+	#projects: () => Promise<{ id: string; name: string }[]>;
+	#onChoose: (source: TaskSource) => void;
+
+	constructor(
+		app: App,
+		{
+			projects,
+			onChoose,
+		}: {
+			projects: () => Promise<{ id: string; name: string }[]>;
+			onChoose: (source: TaskSource) => void;
+		},
+	) {
+		super(app);
+		this.#projects = projects;
+		this.#onChoose = onChoose;
+		this.setPlaceholder("Todoist project, or a filter like today | overdue");
+	}
+
+	async getSuggestions(query: string): Promise<ImportSuggestion[]> {
+		const search = query.trim().toLowerCase();
+		const projects: ImportSuggestion[] = (await this.#projects())
+			.filter(({ name }) => name.toLowerCase().includes(search))
+			.map(({ id, name }) => ({ type: "project", id, name }));
+
+		return search
+			? [...projects, { type: "filter", query: query.trim() }]
+			: projects;
+	}
+
+	renderSuggestion(suggestion: ImportSuggestion, el: HTMLElement) {
+		if (suggestion.type === "project") {
+			el.createDiv({ text: suggestion.name });
+			el.createEl("small", { text: "Project" });
+		} else {
+			el.createDiv({ text: suggestion.query });
+			el.createEl("small", { text: "Filter" });
+		}
+	}
+
+	onChooseSuggestion(suggestion: ImportSuggestion) {
+		this.#onChoose(
+			suggestion.type === "project"
+				? { projectId: suggestion.id }
+				: { filter: suggestion.query },
+		);
+	}
+}
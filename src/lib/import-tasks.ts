@@ -0,0 +1,61 @@
+import type { TodoistApi } from "@doist/todoist-api-typescript";
+import type { QueryClient } from "@tanstack/query-core";
+import { parseContent } from "./parse-content.ts";
+import { fetchTasks, type TaskSource } from "./query/fetch-tasks.ts";
+import { setTaskBaseline } from "./query/task-baseline.ts";
+import {
+	type ContentOptions,
+	fromTodoistContent,
+} from "./task/content-markdown.ts";
+import type { TaskFormat } from "./task/task-format.ts";
+import { todoistTasksToLines } from "./task/todoist-tasks-to-lines.ts";
+
+/**
+ * Task lines of a Todoist project or filter, without the tasks a note has
+ * lines of already
+ * @param content - Note the lines are imported into
+ */
+export async function importTaskLines({
+	queryClient,
+	todoistApi,
+	source,
+	content,
+	format,
+	contentOptions,
+}: {
+	queryClient: QueryClient;
+	todoistApi: () => TodoistApi;
+	source: TaskSource;
+	content: string;
+	format: TaskFormat;
+	contentOptions: ContentOptions;
+}): Promise<string[]> {
+	const tasks = await fetchTasks({ queryClient, todoistApi, source });
+	const noteTaskIds = new Set(
+		parseContent(content, format).map(({ task }) => task.id),
+	);
+
+	return todoistTasksToLines(
+		tasks
+			.filter(({ id }) => !noteTaskIds.has(id))
+			.map((task) => ({
+				...task,
+				content: fromTodoistContent(task.content, contentOptions),
+			})),
+		format,
+	);
+}
+
+/**
+ * Record the tasks of inserted import lines as agreed on by both sides, so
+ * later edits of the lines are sent to Todoist
+ */
+export function setImportedBaselines(
+	queryClient: QueryClient,
+	lines: string[],
+	format: TaskFormat,
+) {
+	for (const { task } of parseContent(lines.join("\n"), format)) {
+		setTaskBaseline(queryClient, task);
+	}
+}
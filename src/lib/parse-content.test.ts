@@ -1,4 +1,4 @@
-import { afterEach, describe, expect, it, vi } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { parseContent } from "./parse-content.ts";
 
 vi.mock("./task/obsidian-task-parse.ts", () => ({
@@ -6,6 +6,7 @@ vi.mock("./task/obsidian-task-parse.ts", () => ({
 }));
 
 import { obsidianTaskParse } from "./task/obsidian-task-parse.ts";
+import { defaultTaskFormat, type TaskFormat } from "./task/task-format.ts";
 
 const mockObsidianTaskParse = vi.mocked(obsidianTaskParse);
 
@@ -23,21 +24,40 @@ describe("parseContent", () => {
 		it("should call obsidianTaskParse once for single task", () => {
 			parseContent("- [ ] Buy groceries");
 			expect(mockObsidianTaskParse).toHaveBeenCalledTimes(1);
-			expect(mockObsidianTaskParse).toHaveBeenCalledWith("- [ ] Buy groceries");
+			expect(mockObsidianTaskParse).toHaveBeenCalledWith(
+				"- [ ] Buy groceries",
+				defaultTaskFormat,
+			);
 		});
 
 		it("should call obsidianTaskParse for each task", () => {
 			parseContent("- [ ] Task 1\n- [x] Task 2");
 			expect(mockObsidianTaskParse).toHaveBeenCalledTimes(2);
-			expect(mockObsidianTaskParse).toHaveBeenNthCalledWith(1, "- [ ] Task 1");
-			expect(mockObsidianTaskParse).toHaveBeenNthCalledWith(2, "- [x] Task 2");
+			expect(mockObsidianTaskParse).toHaveBeenNthCalledWith(
+				1,
+				"- [ ] Task 1",
+				defaultTaskFormat,
+			);
+			expect(mockObsidianTaskParse).toHaveBeenNthCalledWith(
+				2,
+				"- [x] Task 2",
+				defaultTaskFormat,
+			);
 		});
 
 		it("should call obsidianTaskParse only for task lines", () => {
 			parseContent("Text\n\n- [ ] Task\n\nMore text\n- [ ] Another");
 			expect(mockObsidianTaskParse).toHaveBeenCalledTimes(2);
-			expect(mockObsidianTaskParse).toHaveBeenNthCalledWith(1, "- [ ] Task");
-			expect(mockObsidianTaskParse).toHaveBeenNthCalledWith(2, "- [ ] Another");
+			expect(mockObsidianTaskParse).toHaveBeenNthCalledWith(
+				1,
+				"- [ ] Task",
+				defaultTaskFormat,
+			);
+			expect(mockObsidianTaskParse).toHaveBeenNthCalledWith(
+				2,
+				"- [ ] Another",
+				defaultTaskFormat,
+			);
 		});
 	});
 
@@ -45,19 +65,28 @@ describe("parseContent", () => {
 		it("should strip leading spaces before calling obsidianTaskParse", () => {
 			parseContent("  - [ ] Indented task");
 			expect(mockObsidianTaskParse).toHaveBeenCalledTimes(1);
-			expect(mockObsidianTaskParse).toHaveBeenCalledWith("- [ ] Indented task");
+			expect(mockObsidianTaskParse).toHaveBeenCalledWith(
+				"- [ ] Indented task",
+				defaultTaskFormat,
+			);
 		});
 
 		it("should strip tabs before calling obsidianTaskParse", () => {
 			parseContent("\t- [ ] Tabbed task");
 			expect(mockObsidianTaskParse).toHaveBeenCalledTimes(1);
-			expect(mockObsidianTaskParse).toHaveBeenCalledWith("- [ ] Tabbed task");
+			expect(mockObsidianTaskParse).toHaveBeenCalledWith(
+				"- [ ] Tabbed task",
+				defaultTaskFormat,
+			);
 		});
 
 		it("should strip multiple levels of indentation", () => {
 			parseContent("    - [ ] Deep indent");
 			expect(mockObsidianTaskParse).toHaveBeenCalledTimes(1);
-			expect(mockObsidianTaskParse).toHaveBeenCalledWith("- [ ] Deep indent");
+			expect(mockObsidianTaskParse).toHaveBeenCalledWith(
+				"- [ ] Deep indent",
+				defaultTaskFormat,
+			);
 		});
 	});
 
@@ -70,13 +99,19 @@ describe("parseContent", () => {
 		it("should call obsidianTaskParse for tasks before code block only", () => {
 			parseContent("- [ ] Before\n```\n- [ ] Inside\n```");
 			expect(mockObsidianTaskParse).toHaveBeenCalledTimes(1);
-			expect(mockObsidianTaskParse).toHaveBeenCalledWith("- [ ] Before");
+			expect(mockObsidianTaskParse).toHaveBeenCalledWith(
+				"- [ ] Before",
+				defaultTaskFormat,
+			);
 		});
 
 		it("should call obsidianTaskParse for tasks after code block only", () => {
 			parseContent("```\n- [ ] Inside\n```\n- [ ] After");
 			expect(mockObsidianTaskParse).toHaveBeenCalledTimes(1);
-			expect(mockObsidianTaskParse).toHaveBeenCalledWith("- [ ] After");
+			expect(mockObsidianTaskParse).toHaveBeenCalledWith(
+				"- [ ] After",
+				defaultTaskFormat,
+			);
 		});
 
 		it("should call obsidianTaskParse for tasks between code blocks only", () => {
@@ -84,14 +119,25 @@ describe("parseContent", () => {
 				"```\n- [ ] First\n```\n- [ ] Between\n```\n- [ ] Second\n```",
 			);
 			expect(mockObsidianTaskParse).toHaveBeenCalledTimes(1);
-			expect(mockObsidianTaskParse).toHaveBeenCalledWith("- [ ] Between");
+			expect(mockObsidianTaskParse).toHaveBeenCalledWith(
+				"- [ ] Between",
+				defaultTaskFormat,
+			);
 		});
 
 		it("should handle multiple code blocks correctly", () => {
 			parseContent("- [ ] First\n```\ncode\n```\n- [ ] Second");
 			expect(mockObsidianTaskParse).toHaveBeenCalledTimes(2);
-			expect(mockObsidianTaskParse).toHaveBeenNthCalledWith(1, "- [ ] First");
-			expect(mockObsidianTaskParse).toHaveBeenNthCalledWith(2, "- [ ] Second");
+			expect(mockObsidianTaskParse).toHaveBeenNthCalledWith(
+				1,
+				"- [ ] First",
+				defaultTaskFormat,
+			);
+			expect(mockObsidianTaskParse).toHaveBeenNthCalledWith(
+				2,
+				"- [ ] Second",
+				defaultTaskFormat,
+			);
 		});
 
 		it("should not call obsidianTaskParse for unclosed code block", () => {
@@ -107,7 +153,10 @@ describe("parseContent", () => {
 			parseContent(content);
 
 			expect(mockObsidianTaskParse).toHaveBeenCalledTimes(1);
-			expect(mockObsidianTaskParse).toHaveBeenCalledWith("- [ ] Callout task");
+			expect(mockObsidianTaskParse).toHaveBeenCalledWith(
+				"- [ ] Callout task",
+				defaultTaskFormat,
+			);
 		});
 
 		it("should call obsidianTaskParse for nested blockquote tasks", () => {
@@ -120,7 +169,10 @@ describe("parseContent", () => {
 			parseContent(content);
 
 			expect(mockObsidianTaskParse).toHaveBeenCalledTimes(1);
-			expect(mockObsidianTaskParse).toHaveBeenCalledWith("- [ ] Nested task");
+			expect(mockObsidianTaskParse).toHaveBeenCalledWith(
+				"- [ ] Nested task",
+				defaultTaskFormat,
+			);
 		});
 	});
 
@@ -145,4 +197,226 @@ describe("parseContent", () => {
 			expect(mockObsidianTaskParse).not.toHaveBeenCalled();
 		});
 	});
+
+	describe("nested tasks", () => {
+		const parentIds = (content: string) =>
+			parseContent(content).map(({ task, parentId }) => [task.id, parentId]);
+
+		beforeEach(() => {
+			mockObsidianTaskParse.mockImplementation((taskString) => ({
+				task: { content: taskString, checked: false, id: taskString.slice(6) },
+				isNew: false,
+			}));
+		});
+
+		afterEach(() => {
+			mockObsidianTaskParse.mockReset();
+		});
+
+		it("should not set parent for top level tasks", () => {
+			expect(parentIds("- [ ] A\n- [ ] B")).toEqual([
+				["A", undefined],
+				["B", undefined],
+			]);
+		});
+
+		it("should set parent for indented tasks", () => {
+			expect(parentIds("- [ ] A\n  - [ ] B\n    - [ ] C\n  - [ ] D")).toEqual([
+				["A", undefined],
+				["B", "A"],
+				["C", "B"],
+				["D", "A"],
+			]);
+		});
+
+		it("should support tab indentation", () => {
+			expect(parentIds("- [ ] A\n\t- [ ] B\n- [ ] C")).toEqual([
+				["A", undefined],
+				["B", "A"],
+				["C", undefined],
+			]);
+		});
+
+		it("should keep parent across blank lines and plain list items", () => {
+			expect(parentIds("- [ ] A\n\n  - plain item\n    - [ ] B")).toEqual([
+				["A", undefined],
+				["B", "A"],
+			]);
+		});
+
+		it("should end nesting at a paragraph", () => {
+			expect(parentIds("- [ ] A\nParagraph\n  - [ ] B")).toEqual([
+				["A", undefined],
+				["B", undefined],
+			]);
+		});
+
+		it("should nest tasks inside blockquotes", () => {
+			expect(
+				parentIds("> [!note]\n> - [ ] A\n>   - [ ] B\n- [ ] C\n  - [ ] D"),
+			).toEqual([
+				["A", undefined],
+				["B", "A"],
+				["C", undefined],
+				["D", "C"],
+			]);
+		});
+	});
+
+	describe("headings", () => {
+		const headingsFormat: TaskFormat = {
+			...defaultTaskFormat,
+			sectionMode: "headings",
+		};
+		const headings = (content: string, format = headingsFormat) =>
+			parseContent(content, format).map(({ task, heading }) => [
+				task.id,
+				heading,
+			]);
+
+		beforeEach(() => {
+			mockObsidianTaskParse.mockImplementation((taskString) => ({
+				task: { content: taskString, checked: false, id: taskString.slice(6) },
+				isNew: false,
+			}));
+		});
+
+		afterEach(() => {
+			mockObsidianTaskParse.mockReset();
+		});
+
+		it("should record the nearest heading above each task", () => {
+			expect(
+				headings("- [ ] A\n## Backend\n- [ ] B\n### Design ##\n- [ ] C"),
+			).toEqual([
+				["A", undefined],
+				["B", "Backend"],
+				["C", "Design"],
+			]);
+		});
+
+		it("should ignore tags, quoted headings and frontmatter comments", () => {
+			expect(
+				headings("---\n# comment\n---\n## Backend\n#tag\n> # Quote\n- [ ] A"),
+			).toEqual([["A", "Backend"]]);
+		});
+
+		it("should not record headings in the note section mode", () => {
+			expect(headings("## Backend\n- [ ] A", defaultTaskFormat)).toEqual([
+				["A", undefined],
+			]);
+		});
+	});
+
+	describe("descriptions", () => {
+		const descriptions = (content: string) =>
+			parseContent(content).map(({ task, to }) => [
+				task.id,
+				task.description,
+				to,
+			]);
+
+		beforeEach(() => {
+			mockObsidianTaskParse.mockImplementation((taskString) => ({
+				task: { content: taskString, checked: false, id: taskString.slice(6) },
+				isNew: false,
+			}));
+		});
+
+		afterEach(() => {
+			mockObsidianTaskParse.mockReset();
+		});
+
+		it("should read indented lines below a task as its description", () => {
+			expect(
+				descriptions("- [ ] A\n  First\n    nested\n\n  Second\n\nParagraph"),
+			).toEqual([["A", "First\n  nested\n\nSecond", { line: 4, ch: 8 }]]);
+		});
+
+		it("should record the indentation of description lines", () => {
+			expect(
+				parseContent("- [ ] A\n\tFirst\n\t  nested").map(
+					({ task }) => task.descriptionIndent,
+				),
+			).toEqual(["\t"]);
+		});
+
+		it("should end a description at a sub-task", () => {
+			expect(
+				descriptions("- [ ] A\n  - note\n  > quote\n  - [ ] B\n    Detail"),
+			).toEqual([
+				["A", "- note\n> quote", { line: 2, ch: 9 }],
+				["B", "Detail", { line: 4, ch: 10 }],
+			]);
+		});
+
+		it("should not read unindented lines or lines after a blank line", () => {
+			expect(descriptions("- [ ] A\nParagraph\n- [ ] B\n\n  Late")).toEqual([
+				["A", undefined, { line: 0, ch: 7 }],
+				["B", undefined, { line: 2, ch: 7 }],
+			]);
+		});
+
+		it("should read descriptions of tasks inside blockquotes", () => {
+			expect(descriptions("> - [ ] A\n>   Detail\n>\n>   More")).toEqual([
+				["A", "Detail\n\nMore", { line: 3, ch: 8 }],
+			]);
+		});
+	});
+
+	describe("comments callout", () => {
+		beforeEach(() => {
+			mockObsidianTaskParse.mockImplementation((taskString) => ({
+				task: { content: taskString, checked: false, id: taskString.slice(6) },
+				isNew: false,
+			}));
+		});
+
+		afterEach(() => {
+			mockObsidianTaskParse.mockReset();
+		});
+
+		it("should read comment lines after the description", () => {
+			const [result, next] = parseContent(
+				"- [ ] A\n  Detail\n  > [!todoist-comments]- Comments\n  > Done %%[cid::7]%%\n  >\n  > Typed\n- [ ] B",
+			);
+
+			expect(result.task.description).toBe("Detail");
+			expect(result.comments).toEqual({
+				comments: [
+					{ id: "7", content: "Done" },
+					{ id: expect.stringMatching(/^obsidian-/), content: "Typed" },
+				],
+				from: { line: 2, ch: 33 },
+				to: { line: 5, ch: 9 },
+			});
+			expect(next.task.id).toBe("B");
+		});
+	});
+
+	describe("duplicates", () => {
+		beforeEach(() => {
+			mockObsidianTaskParse.mockImplementation((taskString) => ({
+				task: { content: taskString, checked: false, id: taskString.slice(6) },
+				isNew: false,
+			}));
+		});
+
+		afterEach(() => {
+			mockObsidianTaskParse.mockReset();
+		});
+
+		it("should mark copies of a task line after the first", () => {
+			expect(
+				parseContent("- [ ] A\n- [ ] B\n  - [ ] A\n- [ ] A").map(
+					({ task, isDuplicate }) => [task.id, isDuplicate],
+				),
+			).toEqual([
+				["A", undefined],
+				["B", undefined],
+				["A", true],
+				["A", true],
+			]);
+		});
+	});
 });
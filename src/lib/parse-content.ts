@@ -1,21 +1,222 @@
 import type { EditorPosition } from "obsidian";
+import { generateObsidianId } from "./task/generate-obsidian-id.ts";
 import type { ObsidianTask } from "./task/obsidian-task.ts";
 import { obsidianTaskParse } from "./task/obsidian-task-parse.ts";
+import { defaultTaskFormat, type TaskFormat } from "./task/task-format.ts";
 
 export type ParseResults = {
 	task: ObsidianTask;
 	lineNumber: number;
 	isNew: boolean;
+	/** Copy of a task line earlier in the note, with the same id */
+	isDuplicate?: boolean;
+	/** Id of the task this task is nested under */
+	parentId?: string;
+	/** Nearest heading above the task, recorded in the "headings" section mode */
+	heading?: string;
+	/** Text before the task on its line, blockquote markers and indent */
+	indent: string;
 	from: EditorPosition;
+	/** End of the task line, or of its last description line */
 	to: EditorPosition;
+	/** "todoist-comments" callout below the task */
+	comments?: CommentsCallout;
 }[];
 
-export function parseContent(content: string): ParseResults {
+export interface CommentsCallout {
+	/** Comment lines, typed lines get a temporary id */
+	comments: { id: string; content: string }[];
+	/** End of the callout header line */
+	from: EditorPosition;
+	/** End of the last callout line */
+	to: EditorPosition;
+}
+
+const TAB_WIDTH = 4;
+const HEADING_REGEX = /^#{1,6}(?:\s+(?<text>.*?))?(?:\s+#+)?\s*$/;
+const COMMENTS_CALLOUT_REGEX = /^[ \t]+>\s*\[!todoist-comments\]/i;
+const COMMENT_ID_REGEX = /\s*%%\[cid::(?<id>[^\]]+)\]%%\s*$/;
+const TASK_ID_REGEX = /%%\[tid::(?<id>[^\]]+)\]%%/g;
+
+/**
+ * Index of the first line after the frontmatter block, or 0 without one
+ */
+function frontmatterEnd(lines: string[]): number {
+	if (lines[0]?.trimEnd() !== "---") {
+		return 0;
+	}
+
+	const closing = lines.findIndex(
+		(line, index) => index > 0 && /^(?:---|\.\.\.)\s*$/.test(line),
+	);
+
+	return closing === -1 ? 0 : closing + 1;
+}
+
+/**
+ * Read the description lines below a task line: indented lines that are not
+ * tasks, starting right below it. Blank lines are included when more
+ * description follows. Common
+ * indentation is removed, blockquote markers are kept.
+ * @param indent - Text before the task on its line
+ * @returns Description text, its indentation and index of its last line, or
+ * undefined when the task has no description
+ */
+function parseDescription(
+	lines: string[],
+	lineNumber: number,
+	indent: string,
+): { description: string; descriptionIndent: string; end: number } | undefined {
+	const texts: string[] = [];
+	let end = lineNumber;
+
+	for (let index = lineNumber + 1; index < lines.length; index++) {
+		const line = lines[index];
+
+		if (line.trim() === "" || line.trimEnd() === indent.trimEnd()) {
+			if (index === lineNumber + 1) {
+				break;
+			}
+
+			texts.push("");
+			continue;
+		}
+
+		const text = line.startsWith(indent) ? line.slice(indent.length) : "";
+
+		if (
+			!/^[ \t]+\S/.test(text) ||
+			/^\s*(?:[-*+] \[.\]|```)/.test(text) ||
+			COMMENTS_CALLOUT_REGEX.test(text)
+		) {
+			break;
+		}
+
+		texts.push(text);
+		end = index;
+	}
+
+	if (end === lineNumber) {
+		return undefined;
+	}
+
+	const descriptionLines = texts.slice(0, end - lineNumber);
+	const textLines = descriptionLines.filter((text) => text !== "");
+	const commonIndent = Math.min(
+		...textLines.map((text) => /^[ \t]*/.exec(text)?.[0].length ?? 0),
+	);
+
+	return {
+		description: descriptionLines
+			.map((text) => text.slice(commonIndent))
+			.join("\n"),
+		descriptionIndent: textLines[0].slice(0, commonIndent),
+		end,
+	};
+}
+
+/**
+ * Read the "todoist-comments" callout starting at a line, indented under a
+ * task line
+ * @param indent - Text before the task on its line
+ */
+function parseComments(
+	lines: string[],
+	lineNumber: number,
+	indent: string,
+): CommentsCallout | undefined {
+	const header = lines[lineNumber];
+
+	if (
+		header === undefined ||
+		!header.startsWith(indent) ||
+		!COMMENTS_CALLOUT_REGEX.test(header.slice(indent.length))
+	) {
+		return undefined;
+	}
+
+	const comments: CommentsCallout["comments"] = [];
+	let end = lineNumber;
+
+	for (let index = lineNumber + 1; index < lines.length; index++) {
+		const line = lines[index];
+		const match = line.startsWith(indent)
+			? /^[ \t]+>(.*)$/.exec(line.slice(indent.length))
+			: null;
+
+		if (!match) {
+			break;
+		}
+
+		const text = match[1].trim();
+		const id = COMMENT_ID_REGEX.exec(text)?.groups?.id;
+
+		end = index;
+
+		if (text !== "") {
+			comments.push(
+				id
+					? { id, content: text.replace(COMMENT_ID_REGEX, "") }
+					: { id: generateObsidianId(), content: text },
+			);
+		}
+	}
+
+	return {
+		comments,
+		from: { line: lineNumber, ch: header.length },
+		to: { line: end, ch: lines[end].length },
+	};
+}
+
+/**
+ * Split a line into blockquote depth, indent width and the remaining text
+ */
+function splitLinePrefix(line: string): {
+	quoteDepth: number;
+	indent: number;
+	text: string;
+} {
+	const [, quotes = "", whitespace = "", text = ""] =
+		/^((?:[ \t]*>)*)([ \t]*)(.*)$/.exec(line) ?? [];
+	const quoteDepth = quotes.split(">").length - 1;
+	// A single space after ">" separates the quote marker from the content
+	const indent = (
+		quoteDepth > 0 ? whitespace.replace(/^ /, "") : whitespace
+	).replaceAll("\t", " ".repeat(TAB_WIDTH)).length;
+
+	return { quoteDepth, indent, text };
+}
+
+/**
+ * Ids of every task marker in a note, including lines that are not synced,
+ * such as lines with an unmapped checkbox
+ */
+export const markedTaskIds = (content: string): Set<string> =>
+	new Set(
+		Array.from(
+			content.matchAll(TASK_ID_REGEX),
+			({ groups }) => groups?.id ?? "",
+		),
+	);
+
+export function parseContent(
+	content: string,
+	format: TaskFormat = defaultTaskFormat,
+): ParseResults {
 	const parseResults: ParseResults = [];
 	const lines = content.split("\n");
 	let inCodeBlock = false;
+	let parents: { indent: number; id: string }[] = [];
+	let parentsQuoteDepth = 0;
+	let heading: string | undefined;
+	const seenIds = new Set<string>();
 
-	for (let lineNumber = 0; lineNumber < lines.length; lineNumber++) {
+	for (
+		let lineNumber = frontmatterEnd(lines);
+		lineNumber < lines.length;
+		lineNumber++
+	) {
 		const line = lines[lineNumber];
 
 		if (line.trim().startsWith("```")) {
@@ -27,6 +228,35 @@ export function parseContent(content: string): ParseResults {
 			continue;
 		}
 
+		const { quoteDepth, indent, text } = splitLinePrefix(line);
+
+		if (quoteDepth !== parentsQuoteDepth) {
+			parents = [];
+			parentsQuoteDepth = quoteDepth;
+		}
+
+		// Blank lines do not end a list, unindented paragraphs and headings do
+		if (text === "") {
+			continue;
+		}
+
+		if (!/^(?:[-*+]|\d+[.)])\s/.test(text)) {
+			if (indent === 0) {
+				parents = [];
+			}
+
+			const headingMatch = HEADING_REGEX.exec(text);
+
+			if (headingMatch && quoteDepth === 0 && indent < TAB_WIDTH) {
+				heading = headingMatch.groups?.text || undefined;
+			}
+			continue;
+		}
+
+		while (parents.length > 0 && parents[parents.length - 1].indent >= indent) {
+			parents.pop();
+		}
+
 		// Support tasks inside blockquotes/callouts, e.g. "> - [ ] task" or "> > - [ ] task"
 		const taskMatch = line.match(/^(\s*(?:>\s*)*)(\s*)([-*+] \[.+)$/);
 
@@ -35,17 +265,40 @@ export function parseContent(content: string): ParseResults {
 		}
 
 		const quotePrefix = taskMatch[1] ?? "";
-		const indent = taskMatch[2] ?? "";
+		const taskIndent = taskMatch[2] ?? "";
 		const taskString = taskMatch[3];
-		const parseResult = obsidianTaskParse(taskString);
+		const parseResult = obsidianTaskParse(taskString, format);
 
 		if (parseResult) {
+			const parentId = parents[parents.length - 1]?.id;
+			const isDuplicate = seenIds.has(parseResult.task.id);
+			const linePrefix = quotePrefix + taskIndent;
+			const description = parseDescription(lines, lineNumber, linePrefix);
+			const end = description?.end ?? lineNumber;
+			const comments = parseComments(lines, end + 1, linePrefix);
+
+			seenIds.add(parseResult.task.id);
 			parseResults.push({
 				...parseResult,
+				...(description && {
+					task: {
+						...parseResult.task,
+						description: description.description,
+						descriptionIndent: description.descriptionIndent,
+					},
+				}),
 				lineNumber,
-				from: { line: lineNumber, ch: quotePrefix.length + indent.length },
-				to: { line: lineNumber, ch: line.length },
+				...(isDuplicate && { isDuplicate }),
+				...(parentId && { parentId }),
+				...(format.sectionMode === "headings" && heading && { heading }),
+				indent: linePrefix,
+				from: { line: lineNumber, ch: linePrefix.length },
+				to: { line: end, ch: lines[end].length },
+				...(comments && { comments }),
 			});
+
+			parents.push({ indent, id: parseResult.task.id });
+			lineNumber = comments?.to.line ?? end;
 		}
 	}
 
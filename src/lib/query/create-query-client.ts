@@ -1,19 +1,54 @@
-import { QueryClient } from "@tanstack/query-core";
+import { type Mutation, QueryClient } from "@tanstack/query-core";
 import {
 	type Persister,
 	persistQueryClientRestore,
 	persistQueryClientSubscribe,
 } from "@tanstack/query-persist-client-core";
+import type { ContentOptions } from "../task/content-markdown.ts";
+import type { TodoistSyncApi } from "../todoist-sync-api.ts";
+import { syncTokenKey } from "./query-task.ts";
+import { setMutationDefaults } from "./set-mutation-defaults.ts";
+import { taskBaselinesKey } from "./task-baseline.ts";
+import { taskContentsKey } from "./task-content.ts";
+import { taskMirrorsKey } from "./task-mirror.ts";
 
 const gcTime = 1000 * 60 * 60 * 24;
-const maxAge = 1000 * 60 * 60 * 24;
+// Queued offline changes should survive a few days with Obsidian closed
+const maxAge = 1000 * 60 * 60 * 24 * 7;
 const staleTime = 1000 * 60;
 const retry = 3;
 
+// Keep mutations interrupted mid-retry too, not only the paused ones
+const shouldDehydrateMutation = (mutation: Mutation) =>
+	mutation.state.status === "pending";
+
+/**
+ * Store pending mutations as paused, so resumePausedMutations picks up
+ * every restored mutation, including ones that were running
+ */
+const pausedMutationsPersister = (persister: Persister): Persister => ({
+	...persister,
+	persistClient: (client) =>
+		persister.persistClient({
+			...client,
+			clientState: {
+				...client.clientState,
+				mutations: client.clientState.mutations.map((mutation) => ({
+					...mutation,
+					state: { ...mutation.state, isPaused: true },
+				})),
+			},
+		}),
+});
+
 export async function createQueryClient({
 	persister,
+	todoistApi,
+	contentOptions,
 }: {
 	persister: Persister;
+	todoistApi: () => TodoistSyncApi;
+	contentOptions: () => ContentOptions;
 }): Promise<{
 	queryClient: QueryClient;
 	unsubscribe: VoidFunction;
@@ -32,16 +67,34 @@ export async function createQueryClient({
 		},
 	});
 
+	// Restored mutations get their functions from defaults at hydration
+	setMutationDefaults({ queryClient, todoistApi, contentOptions });
+
+	// Baselines, mirrors, sent contents and the sync token have no observers and must outlive gcTime
+	queryClient.setQueryDefaults(taskBaselinesKey, { gcTime: Infinity });
+	queryClient.setQueryDefaults(taskMirrorsKey, { gcTime: Infinity });
+	queryClient.setQueryDefaults(taskContentsKey, { gcTime: Infinity });
+	queryClient.setQueryDefaults(syncTokenKey, { gcTime: Infinity });
+
 	await persistQueryClientRestore({
 		queryClient,
 		persister,
 		maxAge,
 	});
 
-	const unsubscribe = persistQueryClientSubscribe({
+	// Resume paused mutations when the connection comes back
+	queryClient.mount();
+
+	const unsubscribePersist = persistQueryClientSubscribe({
 		queryClient,
-		persister,
+		persister: pausedMutationsPersister(persister),
+		dehydrateOptions: { shouldDehydrateMutation },
 	});
 
+	const unsubscribe = () => {
+		unsubscribePersist();
+		queryClient.unmount();
+	};
+
 	return { queryClient, unsubscribe };
 }
@@ -0,0 +1,21 @@
+import { recurrenceDueString } from "../task/recurrence.ts";
+
+/**
+ * Due field of a Sync API item command. Todoist keeps the recurrence and
+ * its start date in one due string.
+ * @returns `null` to clear the due date, undefined to leave it unchanged
+ */
+export function dueArgs(
+	dueDate: string | null | undefined,
+	recurrence: string | null | undefined,
+): { date: string } | { string: string } | null | undefined {
+	if (recurrence) {
+		return { string: recurrenceDueString(recurrence, dueDate) };
+	}
+
+	if (dueDate) {
+		return { date: dueDate };
+	}
+
+	return dueDate === null ? null : undefined;
+}
@@ -0,0 +1,39 @@
+import type { Task, TodoistApi } from "@doist/todoist-api-typescript";
+import { MutationObserver, QueryClient } from "@tanstack/query-core";
+import { describe, expect, it, vi } from "vitest";
+import { fetchTasks } from "./fetch-tasks.ts";
+import { queryTaskKey } from "./query-task.ts";
+
+const item = (id: string, content: string) =>
+	({ id, content, checked: false, isDeleted: false, projectId: "p1" }) as Task;
+
+describe("fetchTasks", () => {
+	it("should keep the optimistic data of tasks with a pending mutation", async () => {
+		const queryClient = new QueryClient();
+		const todoistApi = {
+			getTasks: vi.fn(async () => ({
+				results: [item("1", "Old"), item("2", "Other")],
+				nextCursor: null,
+			})),
+		} as unknown as TodoistApi;
+
+		queryClient.setQueryData(queryTaskKey("1"), item("1", "New"));
+		new MutationObserver(queryClient, {
+			mutationKey: ["update-task", "1"],
+			mutationFn: () => new Promise(() => {}),
+		}).mutate();
+
+		await fetchTasks({
+			queryClient,
+			todoistApi: () => todoistApi,
+			source: { projectId: "p1" },
+		});
+
+		expect(queryClient.getQueryData(queryTaskKey("1"))).toMatchObject({
+			content: "New",
+		});
+		expect(queryClient.getQueryData(queryTaskKey("2"))).toMatchObject({
+			content: "Other",
+		});
+	});
+});
@@ -0,0 +1,48 @@
+import type {
+	GetTasksResponse,
+	Task,
+	TodoistApi,
+} from "@doist/todoist-api-typescript";
+import type { QueryClient } from "@tanstack/query-core";
+import { pendingTaskIds, queryTaskKey } from "./query-task.ts";
+
+/** Todoist project, or a filter query like "today | overdue" */
+export type TaskSource = { projectId: string } | { filter: string };
+
+/**
+ * Fetch all active tasks of a source, following pagination, and seed the
+ * task cache so imported lines are synced without refetching each task.
+ * Tasks with a mutation in flight keep their optimistic data.
+ */
+export async function fetchTasks({
+	queryClient,
+	todoistApi,
+	source,
+}: {
+	queryClient: QueryClient;
+	todoistApi: () => TodoistApi;
+	source: TaskSource;
+}): Promise<Task[]> {
+	const tasks: Task[] = [];
+	let cursor: string | null = null;
+
+	do {
+		const response: GetTasksResponse =
+			"projectId" in source
+				? await todoistApi().getTasks({ projectId: source.projectId, cursor })
+				: await todoistApi().getTasksByFilter({ query: source.filter, cursor });
+
+		tasks.push(...response.results);
+		cursor = response.nextCursor;
+	} while (cursor);
+
+	const pending = pendingTaskIds(queryClient);
+
+	for (const task of tasks) {
+		if (!pending.has(task.id)) {
+			queryClient.setQueryData(queryTaskKey(task.id), task);
+		}
+	}
+
+	return tasks;
+}
@@ -0,0 +1,101 @@
+import { MutationObserver, type QueryClient } from "@tanstack/query-core";
+import type { TaskComment } from "../task/task-comment.ts";
+import { mutationTaskId } from "./mutation-task-id.ts";
+import { taskCommentsKey } from "./query-task-comments.ts";
+import type {
+	CommandVariables,
+	TaskCommandQueue,
+} from "./task-command-queue.ts";
+
+export interface AddCommentVariables extends CommandVariables {
+	/** Temporary id written next to the comment line */
+	id: string;
+	content: string;
+}
+
+const mutationAddCommentsKey = ["add-comment"] as const;
+
+const mutationAddCommentKey = (taskId: string) =>
+	[...mutationAddCommentsKey, taskId] as const;
+
+export const isAddCommentMutation = (mutationKey?: readonly unknown[]) =>
+	mutationKey?.[0] === mutationAddCommentsKey[0];
+
+export const setAddCommentMutationDefaults = ({
+	queryClient,
+	taskCommands,
+}: {
+	queryClient: QueryClient;
+	taskCommands: TaskCommandQueue;
+}) =>
+	queryClient.setMutationDefaults<string, Error, AddCommentVariables>(
+		mutationAddCommentsKey,
+		{
+			mutationFn: async (variables, context) => {
+				const { id, content } = variables;
+				const taskId = mutationTaskId(context);
+				const { tempIdMapping } = await taskCommands.run(
+					taskId,
+					{
+						type: "note_add",
+						tempId: id,
+						args: { item_id: taskId, content },
+					},
+					variables,
+				);
+
+				return tempIdMapping[id];
+			},
+			// Link the posted comment to its line, the next sync writes its id
+			onSuccess: (
+				commentId,
+				{ id: tempId, content },
+				_onMutateResult,
+				context,
+			) => {
+				queryClient.setQueryData(
+					taskCommentsKey(mutationTaskId(context)),
+					(comments?: TaskComment[]) => {
+						if (!comments) return undefined;
+
+						return comments.some(({ id }) => id === commentId)
+							? comments.map((comment) =>
+									comment.id === commentId ? { ...comment, tempId } : comment,
+								)
+							: [
+									...comments,
+									{
+										id: commentId,
+										content,
+										postedAt: new Date().toISOString(),
+										tempId,
+									},
+								];
+					},
+				);
+			},
+		},
+	);
+
+export const mutationAddComment = ({
+	queryClient,
+	taskId,
+}: {
+	queryClient: QueryClient;
+	taskId: string;
+}) =>
+	new MutationObserver<string, Error, AddCommentVariables>(queryClient, {
+		mutationKey: mutationAddCommentKey(taskId),
+	});
+
+/**
+ * Temporary ids of comments being posted, including ones restored from the
+ * persisted cache after a restart
+ */
+export const postingComments = (queryClient: QueryClient): Set<string> =>
+	new Set(
+		queryClient
+			.getMutationCache()
+			.findAll({ mutationKey: mutationAddCommentsKey, status: "pending" })
+			.map(({ state }) => (state.variables as AddCommentVariables).id),
+	);
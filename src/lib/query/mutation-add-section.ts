@@ -0,0 +1,63 @@
+import type {
+	GetSectionsResponse,
+	TodoistApi,
+} from "@doist/todoist-api-typescript";
+import { MutationObserver, type QueryClient } from "@tanstack/query-core";
+import { fetchSectionList, querySectionListKey } from "./query-section-list.ts";
+
+export interface AddSectionVariables {
+	projectId: string;
+	name: string;
+}
+
+const mutationAddSectionKey = ["add-section"] as const;
+
+export const setAddSectionMutationDefaults = ({
+	queryClient,
+	todoistApi,
+}: {
+	queryClient: QueryClient;
+	todoistApi: () => TodoistApi;
+}) =>
+	queryClient.setMutationDefaults<
+		{ id: string; name: string },
+		Error,
+		AddSectionVariables
+	>(mutationAddSectionKey, {
+		// Run one after another, so tasks under the same new heading share one section
+		scope: { id: "add-section" },
+		mutationFn: async ({ projectId, name }) => {
+			const sections = await fetchSectionList({
+				queryClient,
+				todoistApi,
+				projectId,
+			});
+			const existing = sections.find(
+				(section) => section.name.toLowerCase() === name.toLowerCase(),
+			);
+
+			if (existing) {
+				return existing;
+			}
+
+			const section = await todoistApi().addSection({ projectId, name });
+
+			queryClient.setQueryData<GetSectionsResponse>(
+				querySectionListKey(projectId),
+				(data) => data && { ...data, results: [...data.results, section] },
+			);
+
+			return { id: section.id, name: section.name };
+		},
+	});
+
+export const mutationAddSection = ({
+	queryClient,
+}: {
+	queryClient: QueryClient;
+}) =>
+	new MutationObserver<
+		{ id: string; name: string },
+		Error,
+		AddSectionVariables
+	>(queryClient, { mutationKey: mutationAddSectionKey });
@@ -1,35 +1,156 @@
-import type { TodoistApi } from "@doist/todoist-api-typescript";
+import type { Task } from "@doist/todoist-api-typescript";
 import { MutationObserver, type QueryClient } from "@tanstack/query-core";
+import {
+	type ContentOptions,
+	toTodoistContent,
+} from "../task/content-markdown.ts";
+import { isObsidianId } from "../task/is-obsidian-id.ts";
+import type { ObsidianTask } from "../task/obsidian-task.ts";
+import type { TaskTarget } from "../task-target.ts";
+import type { TodoistSyncApi } from "../todoist-sync-api.ts";
+import { dueArgs } from "./due-args.ts";
+import { mutationTaskId } from "./mutation-task-id.ts";
 import { queryTaskKey } from "./query-task.ts";
+import type {
+	CommandVariables,
+	TaskCommandQueue,
+} from "./task-command-queue.ts";
+import { setSentContent } from "./task-content.ts";
 
-const mutationAddTaskKey = (taskId: string) => ["add-task", taskId] as const;
+export type AddTaskVariables = Omit<ObsidianTask, "id"> &
+	TaskTarget &
+	CommandVariables & {
+		/** Todoist id of the parent task, or the temporary id of a parent being created */
+		parentId?: string;
+	};
+
+const mutationAddTasksKey = ["add-task"] as const;
+
+const mutationAddTaskKey = (taskId: string) =>
+	[...mutationAddTasksKey, taskId] as const;
+
+/** Todoist id assigned to a task created from a temporary obsidian id */
+export const todoistIdKey = (obsidianId: string) =>
+	["todoist-id", obsidianId] as const;
+
+export const setAddTaskMutationDefaults = ({
+	queryClient,
+	todoistApi,
+	taskCommands,
+	contentOptions,
+}: {
+	queryClient: QueryClient;
+	todoistApi: () => TodoistSyncApi;
+	taskCommands: TaskCommandQueue;
+	contentOptions: () => ContentOptions;
+}) =>
+	queryClient.setMutationDefaults<Task, Error, AddTaskVariables>(
+		mutationAddTasksKey,
+		{
+			mutationFn: async (variables, context) => {
+				const {
+					content,
+					dueDate,
+					priority,
+					labels,
+					recurrence,
+					description,
+					projectId,
+					sectionId,
+					parentId: localParentId,
+				} = variables;
+				const tempId = mutationTaskId(context);
+				// A parent still being created is referred to by its temporary id
+				const parentId =
+					localParentId && isObsidianId(localParentId)
+						? (queryClient.getQueryData<string>(todoistIdKey(localParentId)) ??
+							(pendingAddTask(queryClient, localParentId) && localParentId))
+						: localParentId;
+
+				if (localParentId && !parentId) {
+					throw new Error("Parent task is not created yet");
+				}
+
+				const { items, tempIdMapping } = await taskCommands.run(
+					tempId,
+					{
+						type: "item_add",
+						tempId,
+						args: {
+							content: toTodoistContent(content, contentOptions()),
+							project_id: projectId,
+							section_id: sectionId,
+							parent_id: parentId,
+							priority,
+							labels,
+							due: dueArgs(dueDate, recurrence),
+							description,
+						},
+					},
+					variables,
+				);
+				const taskId = tempIdMapping[tempId];
+
+				return (
+					items.find(({ id }) => id === taskId) ?? todoistApi().getTask(taskId)
+				);
+			},
+			onSuccess: (task, { content }, _onMutateResult, context) => {
+				setSentContent(queryClient, task.id, {
+					todoist: task.content,
+					obsidian: content,
+				});
+				queryClient.setQueryData(
+					todoistIdKey(mutationTaskId(context)),
+					task.id,
+				);
+				queryClient.setQueryData(queryTaskKey(task.id), task);
+			},
+		},
+	);
 
 export const mutationAddTask = ({
 	queryClient,
 	taskId,
-	todoistApi,
-	projectId,
 }: {
 	queryClient: QueryClient;
 	taskId: string;
-	todoistApi: () => TodoistApi;
-	projectId: string;
 }) =>
-	new MutationObserver(queryClient, {
+	new MutationObserver<Task, Error, AddTaskVariables>(queryClient, {
 		mutationKey: mutationAddTaskKey(taskId),
-		mutationFn: ({ content }: { content: string }) =>
-			todoistApi().addTask({
-				content,
-				projectId,
-			}),
-		onSuccess: ({ id, content, checked }) => {
-			queryClient.cancelQueries({ queryKey: queryTaskKey(id) });
-			queryClient.setQueryData(
-				queryTaskKey(id),
-				{ id, content, checked },
-				{
-					updatedAt: Date.now(),
-				},
-			);
-		},
 	});
+
+/**
+ * Wait for a pending add of a temporary id, e.g. one restored from the
+ * persisted cache after a restart
+ * @returns Created task, or undefined when there is no pending add
+ */
+export const pendingAddTask = (
+	queryClient: QueryClient,
+	taskId: string,
+): Promise<Task> | undefined => {
+	const mutationCache = queryClient.getMutationCache();
+	const mutation = mutationCache.find<Task, Error, AddTaskVariables>({
+		mutationKey: mutationAddTaskKey(taskId),
+		exact: true,
+		status: "pending",
+	});
+
+	if (!mutation) return undefined;
+
+	return new Promise((resolve, reject) => {
+		const unsubscribe = mutationCache.subscribe((event) => {
+			if (event.mutation !== mutation) return;
+
+			const { status, data, error } = mutation.state;
+
+			if (event.type === "removed" || status === "error") {
+				unsubscribe();
+				reject(error ?? new Error("Task was not created"));
+			} else if (status === "success" && data) {
+				unsubscribe();
+				resolve(data);
+			}
+		});
+	});
+};
@@ -0,0 +1,44 @@
+import { MutationObserver, type QueryClient } from "@tanstack/query-core";
+import { mutationTaskId } from "./mutation-task-id.ts";
+import type {
+	CommandVariables,
+	TaskCommandQueue,
+} from "./task-command-queue.ts";
+
+const mutationDeleteTasksKey = ["delete-task"] as const;
+
+const mutationDeleteTaskKey = (taskId: string) =>
+	[...mutationDeleteTasksKey, taskId] as const;
+
+export const setDeleteTaskMutationDefaults = ({
+	queryClient,
+	taskCommands,
+}: {
+	queryClient: QueryClient;
+	taskCommands: TaskCommandQueue;
+}) =>
+	queryClient.setMutationDefaults<unknown, Error, CommandVariables>(
+		mutationDeleteTasksKey,
+		{
+			mutationFn: (variables, context) =>
+				taskCommands.run(
+					mutationTaskId(context),
+					{
+						type: "item_delete",
+						args: { id: mutationTaskId(context) },
+					},
+					variables,
+				),
+		},
+	);
+
+export const mutationDeleteTask = ({
+	queryClient,
+	taskId,
+}: {
+	queryClient: QueryClient;
+	taskId: string;
+}) =>
+	new MutationObserver<unknown, Error, CommandVariables>(queryClient, {
+		mutationKey: mutationDeleteTaskKey(taskId),
+	});
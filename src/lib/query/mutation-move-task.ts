@@ -0,0 +1,52 @@
+import type { MoveTaskArgs } from "@doist/todoist-api-typescript";
+import { MutationObserver, type QueryClient } from "@tanstack/query-core";
+import { mutationTaskId } from "./mutation-task-id.ts";
+import type {
+	CommandVariables,
+	TaskCommandQueue,
+} from "./task-command-queue.ts";
+
+export type MoveTaskVariables = MoveTaskArgs & CommandVariables;
+
+const mutationMoveTasksKey = ["move-task"] as const;
+
+const mutationMoveTaskKey = (taskId: string) =>
+	[...mutationMoveTasksKey, taskId] as const;
+
+export const setMoveTaskMutationDefaults = ({
+	queryClient,
+	taskCommands,
+}: {
+	queryClient: QueryClient;
+	taskCommands: TaskCommandQueue;
+}) =>
+	queryClient.setMutationDefaults<unknown, Error, MoveTaskVariables>(
+		mutationMoveTasksKey,
+		{
+			mutationFn: (variables, context) =>
+				taskCommands.run(
+					mutationTaskId(context),
+					{
+						type: "item_move",
+						args: {
+							id: mutationTaskId(context),
+							project_id: variables.projectId,
+							section_id: variables.sectionId,
+							parent_id: variables.parentId,
+						},
+					},
+					variables,
+				),
+		},
+	);
+
+export const mutationMoveTask = ({
+	queryClient,
+	taskId,
+}: {
+	queryClient: QueryClient;
+	taskId: string;
+}) =>
+	new MutationObserver<unknown, Error, MoveTaskVariables>(queryClient, {
+		mutationKey: mutationMoveTaskKey(taskId),
+	});
@@ -1,33 +1,74 @@
-import type { TodoistApi } from "@doist/todoist-api-typescript";
+import type { Task } from "@doist/todoist-api-typescript";
 import { MutationObserver, type QueryClient } from "@tanstack/query-core";
 import type { ObsidianTask } from "../task/obsidian-task.ts";
+import { todoistTaskToObsidianTask } from "../task/todoist-task-to-obsidian-task.ts";
+import { mutationTaskId } from "./mutation-task-id.ts";
 import { queryTaskKey } from "./query-task.ts";
+import type {
+	CommandVariables,
+	TaskCommandQueue,
+} from "./task-command-queue.ts";
+
+export interface SetCheckedTaskVariables extends CommandVariables {
+	checked: boolean;
+}
+
+const mutationSetCheckedTasksKey = ["set-checked"] as const;
 
 const mutationSetCheckedTaskKey = (taskId: string) =>
-	["set-checked", taskId] as const;
+	[...mutationSetCheckedTasksKey, taskId] as const;
+
+export const setSetCheckedTaskMutationDefaults = ({
+	queryClient,
+	taskCommands,
+}: {
+	queryClient: QueryClient;
+	taskCommands: TaskCommandQueue;
+}) =>
+	queryClient.setMutationDefaults<unknown, Error, SetCheckedTaskVariables>(
+		mutationSetCheckedTasksKey,
+		{
+			// Closing a recurring task moves it to the next date, the request
+			// reads the moved task back
+			mutationFn: (variables, context) =>
+				taskCommands.run(
+					mutationTaskId(context),
+					{
+						type: variables.checked ? "item_close" : "item_uncomplete",
+						args: { id: mutationTaskId(context) },
+					},
+					variables,
+				),
+			onMutate: ({ checked }, context) => {
+				const taskId = mutationTaskId(context);
+
+				queryClient.cancelQueries({
+					queryKey: queryTaskKey(taskId),
+				});
+				queryClient.setQueryData(
+					queryTaskKey(taskId),
+					(task?: Task | ObsidianTask) => {
+						if (!task) return task;
+
+						const obsidianTask = todoistTaskToObsidianTask(task);
+
+						// Todoist keeps a closed recurring task open with the next due date
+						return checked && obsidianTask.recurrence
+							? obsidianTask
+							: { ...obsidianTask, checked };
+					},
+				);
+			},
+		},
+	);
 
 export const mutationSetCheckedTask = ({
 	queryClient,
 	taskId,
-	todoistApi,
 }: {
 	queryClient: QueryClient;
 	taskId: string;
-	todoistApi: () => TodoistApi;
 }) =>
-	new MutationObserver(queryClient, {
+	new MutationObserver<unknown, Error, SetCheckedTaskVariables>(queryClient, {
 		mutationKey: mutationSetCheckedTaskKey(taskId),
-		mutationFn: (variables: { checked: boolean }) =>
-			variables.checked
-				? todoistApi().closeTask(taskId)
-				: todoistApi().reopenTask(taskId),
-		onMutate: ({ checked }) => {
-			queryClient.cancelQueries({
-				queryKey: queryTaskKey(taskId),
-			});
-			queryClient.setQueryData(queryTaskKey(taskId), (task: ObsidianTask) => ({
-				...task,
-				checked,
-			}));
-		},
 	});
@@ -0,0 +1,8 @@
+import type { MutationFunctionContext } from "@tanstack/query-core";
+
+/**
+ * Task id of a per-task mutation, keyed as [name, taskId]. Mutations restored
+ * from the persisted cache only keep their key, so handlers read the id from it.
+ */
+export const mutationTaskId = ({ mutationKey }: MutationFunctionContext) =>
+	String(mutationKey?.[1]);
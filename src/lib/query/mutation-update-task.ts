@@ -1,31 +1,124 @@
-import type { TodoistApi } from "@doist/todoist-api-typescript";
 import { MutationObserver, type QueryClient } from "@tanstack/query-core";
+import {
+	type ContentOptions,
+	toTodoistContent,
+} from "../task/content-markdown.ts";
 import type { ObsidianTask } from "../task/obsidian-task.ts";
+import { NORMAL_PRIORITY } from "../task/priority-markers.ts";
+import { todoistTaskToObsidianTask } from "../task/todoist-task-to-obsidian-task.ts";
+import { dueArgs } from "./due-args.ts";
+import { mutationTaskId } from "./mutation-task-id.ts";
 import { queryTaskKey } from "./query-task.ts";
+import type {
+	CommandVariables,
+	TaskCommandQueue,
+} from "./task-command-queue.ts";
+import { setSentContent } from "./task-content.ts";
+
+/**
+ * Changed task fields, `null` clears an optional field
+ */
+export interface UpdateTaskVariables extends CommandVariables {
+	content?: string;
+	dueDate?: string | null;
+	priority?: number | null;
+	labels?: string[] | null;
+	/** Sent together with dueDate, Todoist keeps both in one due string */
+	recurrence?: string | null;
+	description?: string | null;
+}
+
+const mutationUpdateTasksKey = ["set-content"] as const;
 
 const mutationUpdateTaskKey = (taskId: string) =>
-	["set-content", taskId] as const;
+	[...mutationUpdateTasksKey, taskId] as const;
+
+export const setUpdateTaskMutationDefaults = ({
+	queryClient,
+	taskCommands,
+	contentOptions,
+}: {
+	queryClient: QueryClient;
+	taskCommands: TaskCommandQueue;
+	contentOptions: () => ContentOptions;
+}) =>
+	queryClient.setMutationDefaults<unknown, Error, UpdateTaskVariables>(
+		mutationUpdateTasksKey,
+		{
+			mutationFn: (variables, context) => {
+				const { content, dueDate, priority, labels, recurrence, description } =
+					variables;
+				const taskId = mutationTaskId(context);
+				let todoistContent: string | undefined;
+
+				// Remembered before the result is read back with the request
+				if (content !== undefined) {
+					todoistContent = toTodoistContent(content, contentOptions());
+					setSentContent(queryClient, taskId, {
+						todoist: todoistContent,
+						obsidian: content,
+					});
+				}
+
+				return taskCommands.run(
+					taskId,
+					{
+						type: "item_update",
+						args: {
+							id: taskId,
+							content: todoistContent,
+							...(labels !== undefined && { labels: labels ?? [] }),
+							...(priority !== undefined && {
+								priority: priority ?? NORMAL_PRIORITY,
+							}),
+							due: dueArgs(dueDate, recurrence),
+							...(description !== undefined && {
+								description: description ?? "",
+							}),
+						},
+					},
+					variables,
+				);
+			},
+			onMutate: async (
+				{ content, dueDate, priority, labels, recurrence, description },
+				context,
+			) => {
+				const taskId = mutationTaskId(context);
+
+				queryClient.cancelQueries({
+					queryKey: queryTaskKey(taskId),
+				});
+				queryClient.setQueryData(
+					queryTaskKey(taskId),
+					(task?: ObsidianTask) =>
+						task && {
+							...todoistTaskToObsidianTask(task),
+							...(content !== undefined && { content }),
+							...(dueDate !== undefined && { dueDate: dueDate ?? undefined }),
+							...(priority !== undefined && {
+								priority: priority ?? undefined,
+							}),
+							...(labels !== undefined && { labels: labels ?? undefined }),
+							...(recurrence !== undefined && {
+								recurrence: recurrence ?? undefined,
+							}),
+							...(description !== undefined && {
+								description: description ?? undefined,
+							}),
+						},
+				);
+			},
+		},
+	);
 
 export const mutationUpdateTask = ({
 	queryClient,
 	taskId,
-	todoistApi,
 }: {
 	queryClient: QueryClient;
 	taskId: string;
-	todoistApi: () => TodoistApi;
 }) =>
-	new MutationObserver(queryClient, {
+	new MutationObserver<unknown, Error, UpdateTaskVariables>(queryClient, {
 		mutationKey: mutationUpdateTaskKey(taskId),
-		mutationFn: (variables: { content: string }) =>
-			todoistApi().updateTask(taskId, { content: variables.content }),
-		onMutate: async ({ content }) => {
-			queryClient.cancelQueries({
-				queryKey: queryTaskKey(taskId),
-			});
-			queryClient.setQueryData(queryTaskKey(taskId), (task: ObsidianTask) => ({
-				...task,
-				content,
-			}));
-		},
 	});
@@ -0,0 +1,23 @@
+import type { Task, TodoistApi } from "@doist/todoist-api-typescript";
+import { type QueryClient, QueryObserver } from "@tanstack/query-core";
+import type { ObsidianTask } from "../task/obsidian-task.ts";
+import { todoistTaskToObsidianTask } from "../task/todoist-task-to-obsidian-task.ts";
+import { fetchTasks } from "./fetch-tasks.ts";
+
+export const queryFilterTasksKey = (filter: string) =>
+	["filter-tasks", filter] as const;
+
+export const queryFilterTasks = ({
+	queryClient,
+	todoistApi,
+	filter,
+}: {
+	queryClient: QueryClient;
+	todoistApi: () => TodoistApi;
+	filter: string;
+}) =>
+	new QueryObserver<Task[], Error, ObsidianTask[]>(queryClient, {
+		queryKey: queryFilterTasksKey(filter),
+		queryFn: () => fetchTasks({ queryClient, todoistApi, source: { filter } }),
+		select: (tasks) => tasks.map(todoistTaskToObsidianTask),
+	});
@@ -1,8 +1,19 @@
-import type { TodoistApi } from "@doist/todoist-api-typescript";
+import type {
+	GetProjectsResponse,
+	TodoistApi,
+} from "@doist/todoist-api-typescript";
 import { type QueryClient, QueryObserver } from "@tanstack/query-core";
 
 const queryProjectListKey = () => ["projects"] as const;
 
+const projectListOptions = (todoistApi: () => TodoistApi) => ({
+	queryKey: queryProjectListKey(),
+	queryFn: () => todoistApi().getProjects(),
+});
+
+const selectProjects = ({ results }: GetProjectsResponse) =>
+	results.map(({ id, name }) => ({ id, name }));
+
 export const queryProjectList = ({
 	queryClient,
 	todoistApi,
@@ -11,7 +22,15 @@ export const queryProjectList = ({
 	todoistApi: () => TodoistApi;
 }) =>
 	new QueryObserver(queryClient, {
-		queryKey: queryProjectListKey(),
-		queryFn: () => todoistApi().getProjects(),
-		select: ({ results }) => results.map(({ id, name }) => ({ id, name })),
+		...projectListOptions(todoistApi),
+		select: selectProjects,
 	});
+
+export const fetchProjectList = async ({
+	queryClient,
+	todoistApi,
+}: {
+	queryClient: QueryClient;
+	todoistApi: () => TodoistApi;
+}) =>
+	selectProjects(await queryClient.fetchQuery(projectListOptions(todoistApi)));
@@ -0,0 +1,32 @@
+import type {
+	GetSectionsResponse,
+	TodoistApi,
+} from "@doist/todoist-api-typescript";
+import type { QueryClient } from "@tanstack/query-core";
+
+export const querySectionListKey = (projectId: string) =>
+	["sections", projectId] as const;
+
+const sectionListOptions = (
+	todoistApi: () => TodoistApi,
+	projectId: string,
+) => ({
+	queryKey: querySectionListKey(projectId),
+	queryFn: () => todoistApi().getSections({ projectId }),
+});
+
+const selectSections = ({ results }: GetSectionsResponse) =>
+	results.map(({ id, name }) => ({ id, name }));
+
+export const fetchSectionList = async ({
+	queryClient,
+	todoistApi,
+	projectId,
+}: {
+	queryClient: QueryClient;
+	todoistApi: () => TodoistApi;
+	projectId: string;
+}) =>
+	selectSections(
+		await queryClient.fetchQuery(sectionListOptions(todoistApi, projectId)),
+	);
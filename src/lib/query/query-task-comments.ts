@@ -0,0 +1,74 @@
+import type { Comment } from "@doist/todoist-api-typescript";
+import { type QueryClient, QueryObserver } from "@tanstack/query-core";
+import type { TaskComment } from "../task/task-comment.ts";
+import type { SyncNote, TodoistSyncApi } from "../todoist-sync-api.ts";
+
+export const taskCommentsKey = (taskId: string) =>
+	["task-comments", taskId] as const;
+
+const toTaskComment = ({
+	id,
+	content,
+	postedAt,
+}: Comment | SyncNote): TaskComment => ({ id, content, postedAt });
+
+const byPostedAt = (a: TaskComment, b: TaskComment) =>
+	a.postedAt.localeCompare(b.postedAt);
+
+/**
+ * Write changed comments into the loaded comment lists of their tasks
+ */
+export function applySyncNotes(queryClient: QueryClient, notes: SyncNote[]) {
+	for (const note of notes) {
+		queryClient.setQueryData(
+			taskCommentsKey(note.itemId),
+			(comments?: TaskComment[]) => {
+				if (!comments) return undefined;
+
+				const existing = comments.find(({ id }) => id === note.id);
+				const rest = comments.filter(({ id }) => id !== note.id);
+
+				return note.isDeleted
+					? rest
+					: [...rest, { ...existing, ...toTaskComment(note) }].sort(byPostedAt);
+			},
+		);
+	}
+}
+
+/**
+ * Comments of a task. The list is read once, later changes arrive with the
+ * task syncs through applySyncNotes, also when the list is invalidated.
+ */
+export const queryTaskComments = ({
+	queryClient,
+	taskId,
+	todoistApi,
+}: {
+	queryClient: QueryClient;
+	taskId: string;
+	todoistApi: () => TodoistSyncApi;
+}) =>
+	new QueryObserver<TaskComment[]>(queryClient, {
+		queryKey: taskCommentsKey(taskId),
+		queryFn: async () => {
+			const loaded = queryClient.getQueryData<TaskComment[]>(
+				taskCommentsKey(taskId),
+			);
+
+			if (loaded) return loaded;
+
+			const comments: TaskComment[] = [];
+			let cursor: string | null = null;
+
+			do {
+				const response = await todoistApi().getComments({ taskId, cursor });
+
+				comments.push(...response.results.map(toTaskComment));
+				cursor = response.nextCursor;
+			} while (cursor);
+
+			return comments.sort(byPostedAt);
+		},
+		staleTime: Infinity,
+	});
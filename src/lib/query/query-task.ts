@@ -1,18 +1,133 @@
-import type { Task, TodoistApi } from "@doist/todoist-api-typescript";
+import type { Task } from "@doist/todoist-api-typescript";
 import { type QueryClient, QueryObserver } from "@tanstack/query-core";
+import type { ContentOptions } from "../task/content-markdown.ts";
 import type { ObsidianTask } from "../task/obsidian-task.ts";
+import { todoistTaskToObsidianTask } from "../task/todoist-task-to-obsidian-task.ts";
+import type { SyncResult, TodoistSyncApi } from "../todoist-sync-api.ts";
+import { isAddCommentMutation } from "./mutation-add-comment.ts";
+import { applySyncNotes } from "./query-task-comments.ts";
+import { receiveContent } from "./task-content.ts";
 
 export const queryTaskKey = (taskId: string) => ["task", taskId] as const;
 
+/** Sync API token of the last read, kept in the persisted cache */
+export const syncTokenKey = ["sync-token"] as const;
+
+/** Resources read by every sync, comments are kept for tasks that show them */
+export const syncResourceTypes = ["items", "notes"];
+
+/**
+ * Task entries hold a Todoist task once synced, and note data before that
+ */
+const isTodoistTask = (task: Task | ObsidianTask): task is Task =>
+	"projectId" in task;
+
+/**
+ * Note data of a task entry, with Todoist content converted back to note
+ * content
+ */
+export function receiveTask(
+	queryClient: QueryClient,
+	task: Task | ObsidianTask,
+	contentOptions: ContentOptions,
+): ObsidianTask {
+	const obsidianTask = todoistTaskToObsidianTask(task);
+
+	if (!isTodoistTask(task)) return obsidianTask;
+
+	return {
+		...obsidianTask,
+		content: receiveContent(queryClient, task.id, task.content, contentOptions),
+	};
+}
+
+/**
+ * Tasks with a mutation in flight, their cached data is optimistic. Comments
+ * being posted leave the task data alone.
+ */
+export const pendingTaskIds = (queryClient: QueryClient): Set<string> =>
+	new Set(
+		queryClient
+			.getMutationCache()
+			.findAll({
+				status: "pending",
+				predicate: ({ options }) => !isAddCommentMutation(options.mutationKey),
+			})
+			.map(({ options }) => String(options.mutationKey?.[1])),
+	);
+
+/**
+ * Write changed items into the task queries of synced lines. Tasks with a
+ * mutation in flight keep their optimistic data, unless listed in `taskIds`.
+ * @param taskIds - Tasks the sync result was produced for
+ */
+export function applySyncResult(
+	queryClient: QueryClient,
+	{ syncToken, items, notes }: SyncResult,
+	taskIds: string[] = [],
+) {
+	const queryCache = queryClient.getQueryCache();
+	const pending = pendingTaskIds(queryClient);
+
+	for (const taskId of taskIds) {
+		pending.delete(taskId);
+	}
+
+	for (const item of items) {
+		const queryKey = queryTaskKey(item.id);
+
+		if (
+			pending.has(item.id) ||
+			(!taskIds.includes(item.id) &&
+				!queryCache.find({ queryKey, exact: true }))
+		) {
+			continue;
+		}
+
+		queryClient.setQueryData(queryKey, item);
+	}
+
+	applySyncNotes(queryClient, notes);
+	queryClient.setQueryData(syncTokenKey, syncToken);
+}
+
+/**
+ * Read task changes since the last sync in one request. Calls while a read
+ * is in flight share it.
+ */
+export const syncTasks = ({
+	queryClient,
+	todoistApi,
+}: {
+	queryClient: QueryClient;
+	todoistApi: () => TodoistSyncApi;
+}) =>
+	queryClient.fetchQuery({
+		queryKey: syncTokenKey,
+		queryFn: async () => {
+			const result = await todoistApi().sync({
+				syncToken: queryClient.getQueryData<string>(syncTokenKey) ?? "*",
+				resourceTypes: syncResourceTypes,
+			});
+
+			applySyncResult(queryClient, result);
+
+			return result.syncToken;
+		},
+		staleTime: 0,
+	});
+
 export const queryTask = ({
 	queryClient,
 	taskId,
 	todoistApi,
+	contentOptions,
 	initialData,
 }: {
 	queryClient: QueryClient;
 	taskId: string;
-	todoistApi: () => TodoistApi;
+	todoistApi: () => TodoistSyncApi;
+	contentOptions: () => ContentOptions;
 	initialData: ObsidianTask;
 }) =>
 	new QueryObserver<
@@ -22,25 +137,25 @@ export const queryTask = ({
 		Task | ObsidianTask
 	>(queryClient, {
 		queryKey: queryTaskKey(taskId),
-		queryFn: () => todoistApi().getTask(taskId),
+		queryFn: async () => {
+			await syncTasks({ queryClient, todoistApi });
+
+			const task = queryClient.getQueryData<Task | ObsidianTask>(
+				queryTaskKey(taskId),
+			);
+
+			// Changes before the first sync of a line are not in the sync delta
+			return task && isTodoistTask(task) ? task : todoistApi().getTask(taskId);
+		},
 		initialData,
-		select: ({
-			id,
-			checked,
-			content,
-			...rest
-		}): ObsidianTask | { deleted: true; id: string } => {
-			if ("isDeleted" in rest && rest.isDeleted) {
+		select: (task): ObsidianTask | { deleted: true; id: string } => {
+			if ("isDeleted" in task && task.isDeleted) {
 				return {
-					id,
+					id: task.id,
 					deleted: true,
 				};
 			}
 
-			return {
-				id,
-				checked,
-				content,
-			};
+			return receiveTask(queryClient, task, contentOptions());
 		},
 	});
@@ -0,0 +1,32 @@
+import type { QueryClient } from "@tanstack/query-core";
+import type { ContentOptions } from "../task/content-markdown.ts";
+import type { TodoistSyncApi } from "../todoist-sync-api.ts";
+import { setAddCommentMutationDefaults } from "./mutation-add-comment.ts";
+import { setAddSectionMutationDefaults } from "./mutation-add-section.ts";
+import { setAddTaskMutationDefaults } from "./mutation-add-task.ts";
+import { setDeleteTaskMutationDefaults } from "./mutation-delete-task.ts";
+import { setMoveTaskMutationDefaults } from "./mutation-move-task.ts";
+import { setSetCheckedTaskMutationDefaults } from "./mutation-set-checked-task.ts";
+import { setUpdateTaskMutationDefaults } from "./mutation-update-task.ts";
+import { TaskCommandQueue } from "./task-command-queue.ts";
+
+/**
+ * Register mutation functions by key. Mutations restored from the persisted
+ * cache carry only their key and variables, they run with these defaults.
+ */
+export function setMutationDefaults(options: {
+	queryClient: QueryClient;
+	todoistApi: () => TodoistSyncApi;
+	contentOptions: () => ContentOptions;
+}) {
+	// Task commands of all mutations share Sync API requests
+	const taskCommands = new TaskCommandQueue(options);
+
+	setAddTaskMutationDefaults({ ...options, taskCommands });
+	setUpdateTaskMutationDefaults({ ...options, taskCommands });
+	setSetCheckedTaskMutationDefaults({ ...options, taskCommands });
+	setMoveTaskMutationDefaults({ ...options, taskCommands });
+	setDeleteTaskMutationDefaults({ ...options, taskCommands });
+	setAddCommentMutationDefaults({ ...options, taskCommands });
+	setAddSectionMutationDefaults(options);
+}
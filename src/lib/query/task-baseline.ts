@@ -0,0 +1,20 @@
+import type { QueryClient } from "@tanstack/query-core";
+import type { ObsidianTask } from "../task/obsidian-task.ts";
+
+/**
+ * Task state both sides agreed on at the last sync, kept in the persisted
+ * cache to tell which side changed a task since then
+ */
+export const taskBaselinesKey = ["task-baseline"] as const;
+
+export const taskBaselineKey = (taskId: string) =>
+	[...taskBaselinesKey, taskId] as const;
+
+export const getTaskBaseline = (queryClient: QueryClient, taskId: string) =>
+	queryClient.getQueryData<ObsidianTask>(taskBaselineKey(taskId));
+
+export const setTaskBaseline = (queryClient: QueryClient, task: ObsidianTask) =>
+	queryClient.setQueryData(taskBaselineKey(task.id), task);
+
+export const removeTaskBaseline = (queryClient: QueryClient, taskId: string) =>
+	queryClient.removeQueries({ queryKey: taskBaselineKey(taskId), exact: true });
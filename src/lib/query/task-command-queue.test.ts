@@ -0,0 +1,180 @@
+import type { Task } from "@doist/todoist-api-typescript";
+import { QueryClient } from "@tanstack/query-core";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { SyncCommand, TodoistSyncApi } from "../todoist-sync-api.ts";
+import { queryTaskKey, syncTokenKey } from "./query-task.ts";
+import { TaskCommandQueue } from "./task-command-queue.ts";
+
+const item = (id: string, content: string) =>
+	({ id, content, checked: false, isDeleted: false, projectId: "p1" }) as Task;
+
+describe("TaskCommandQueue", () => {
+	let queryClient: QueryClient;
+	let tempIdMapping: Record<string, string>;
+	let items: Task[];
+	let failing: string[];
+	let todoistApi: TodoistSyncApi;
+	let queue: TaskCommandQueue;
+
+	const sentCommands = (call: number): SyncCommand[] =>
+		vi.mocked(todoistApi.sync).mock.calls[call][0].commands ?? [];
+
+	beforeEach(() => {
+		queryClient = new QueryClient();
+		tempIdMapping = {};
+		items = [];
+		failing = [];
+		todoistApi = {
+			sync: vi.fn(async ({ commands = [] }: { commands?: SyncCommand[] }) => ({
+				syncToken: `token-${commands.length}`,
+				fullSync: false,
+				items,
+				notes: [],
+				syncStatus: Object.fromEntries(
+					commands.map(({ type, uuid }) => [
+						uuid,
+						failing.includes(type)
+							? { error: "Invalid argument", httpCode: 400 }
+							: "ok",
+					]),
+				),
+				tempIdMapping,
+			})),
+		} as unknown as TodoistSyncApi;
+		queue = new TaskCommandQueue({
+			queryClient,
+			todoistApi: () => todoistApi,
+		});
+	});
+
+	it("should send commands queued together in one request", async () => {
+		await Promise.all([
+			queue.run("1", { type: "item_close", args: { id: "1" } }),
+			queue.run("2", { type: "item_update", args: { id: "2", content: "B" } }),
+		]);
+
+		expect(todoistApi.sync).toHaveBeenCalledOnce();
+		expect(sentCommands(0).map(({ type }) => type)).toEqual([
+			"item_close",
+			"item_update",
+		]);
+	});
+
+	describe("debounce window", () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it("should wait while commands keep coming", async () => {
+			queue.run("1", { type: "item_close", args: { id: "1" } });
+			await vi.advanceTimersByTimeAsync(80);
+			queue.run("2", { type: "item_close", args: { id: "2" } });
+			await vi.advanceTimersByTimeAsync(80);
+
+			expect(todoistApi.sync).not.toHaveBeenCalled();
+
+			await vi.advanceTimersByTimeAsync(20);
+
+			expect(todoistApi.sync).toHaveBeenCalledOnce();
+			expect(sentCommands(0)).toHaveLength(2);
+		});
+
+		it("should send after the maximum wait", async () => {
+			for (let index = 0; index < 15; index++) {
+				queue.run(String(index), {
+					type: "item_close",
+					args: { id: String(index) },
+				});
+				await vi.advanceTimersByTimeAsync(80);
+			}
+
+			expect(todoistApi.sync).toHaveBeenCalledOnce();
+			expect(sentCommands(0)).toHaveLength(13);
+		});
+	});
+
+	it("should read changes since the previous request", async () => {
+		await queue.run("1", { type: "item_close", args: { id: "1" } });
+		await queue.run("1", { type: "item_uncomplete", args: { id: "1" } });
+
+		expect(vi.mocked(todoistApi.sync).mock.calls[0][0].syncToken).toBe("*");
+		expect(vi.mocked(todoistApi.sync).mock.calls[1][0].syncToken).toBe(
+			"token-1",
+		);
+		expect(queryClient.getQueryData(syncTokenKey)).toBe("token-1");
+	});
+
+	it("should replace temporary ids created by an earlier request", async () => {
+		tempIdMapping = { "obsidian-1": "100" };
+		await queue.run("obsidian-1", {
+			type: "item_add",
+			tempId: "obsidian-1",
+			args: { content: "Parent" },
+		});
+
+		tempIdMapping = {};
+		await queue.run("obsidian-2", {
+			type: "item_add",
+			tempId: "obsidian-2",
+			args: { content: "Child", parent_id: "obsidian-1" },
+		});
+
+		expect(sentCommands(1)[0].args.parent_id).toBe("100");
+	});
+
+	it("should reject only the commands that failed", async () => {
+		failing = ["item_move"];
+
+		const results = await Promise.allSettled([
+			queue.run("1", { type: "item_close", args: { id: "1" } }),
+			queue.run("2", { type: "item_move", args: { id: "2" } }),
+		]);
+
+		expect(results.map(({ status }) => status)).toEqual([
+			"fulfilled",
+			"rejected",
+		]);
+	});
+
+	it("should send the command uuid of a mutation again on retries", async () => {
+		const variables = {};
+
+		failing = ["item_close"];
+		await queue
+			.run("1", { type: "item_close", args: { id: "1" } }, variables)
+			.catch(() => {});
+		failing = [];
+		await queue.run("1", { type: "item_close", args: { id: "1" } }, variables);
+
+		expect(sentCommands(1)[0].uuid).toBe(sentCommands(0)[0].uuid);
+		expect(variables).toEqual({ commandUuid: sentCommands(0)[0].uuid });
+	});
+
+	it("should send later requests when reading a result fails", async () => {
+		items = [null as unknown as Task];
+
+		await expect(
+			queue.run("1", { type: "item_close", args: { id: "1" } }),
+		).rejects.toThrow();
+
+		items = [];
+		await queue.run("2", { type: "item_close", args: { id: "2" } });
+
+		expect(todoistApi.sync).toHaveBeenCalledTimes(2);
+	});
+
+	it("should write changed items into cached and changed tasks", async () => {
+		queryClient.setQueryData(queryTaskKey("1"), item("1", "Old"));
+		items = [item("1", "A"), item("2", "B"), item("3", "C")];
+
+		await queue.run("3", { type: "item_update", args: { id: "3" } });
+
+		expect(queryClient.getQueryData(queryTaskKey("1"))).toEqual(items[0]);
+		expect(queryClient.getQueryData(queryTaskKey("2"))).toBeUndefined();
+		expect(queryClient.getQueryData(queryTaskKey("3"))).toEqual(items[2]);
+	});
+});
@@ -0,0 +1,178 @@
+import { TodoistRequestError } from "@doist/todoist-api-typescript";
+import type { QueryClient } from "@tanstack/query-core";
+import type {
+	SyncCommand,
+	SyncResult,
+	TodoistSyncApi,
+} from "../todoist-sync-api.ts";
+import {
+	applySyncResult,
+	syncResourceTypes,
+	syncTokenKey,
+} from "./query-task.ts";
+
+// Wait for more commands while they keep coming, e.g. lines of a pasted list
+const BATCH_DELAY = 100;
+// Send at the latest this long after the first queued command
+const MAX_BATCH_WAIT = 1000;
+// Sync API limit of commands per request
+const MAX_COMMANDS = 100;
+
+/** Variables of mutations sent as Sync API commands */
+export interface CommandVariables {
+	/**
+	 * Uuid of the sent command, created on the first run and persisted with
+	 * the mutation. Todoist applies a command once however often it is sent.
+	 */
+	commandUuid?: string;
+}
+
+interface QueuedCommand {
+	command: SyncCommand;
+	taskId: string;
+	resolve: (result: SyncResult) => void;
+	reject: (error: Error) => void;
+}
+
+/**
+ * Batch task commands into Sync API requests. Each request also reads task
+ * changes since the last sync, so the commands' results land in the cache.
+ */
+export class TaskCommandQueue {
+	#queryClient: QueryClient;
+	#todoistApi: () => TodoistSyncApi;
+	#queue: QueuedCommand[] = [];
+	#timeout?: ReturnType<typeof setTimeout>;
+	#firstQueuedAt = 0;
+	#sending: Promise<void> = Promise.resolve();
+	// Temporary ids created by earlier requests, for commands queued before
+	// their parent was created
+	#tempIdMapping = new Map<string, string>();
+
+	constructor({
+		queryClient,
+		todoistApi,
+	}: {
+		queryClient: QueryClient;
+		todoistApi: () => TodoistSyncApi;
+	}) {
+		this.#queryClient = queryClient;
+		this.#todoistApi = todoistApi;
+	}
+
+	/**
+	 * Queue a command for the next request
+	 * @param taskId - Task the command changes, its cache entry takes the result
+	 * @param variables - Variables of the mutation, keep the command uuid for retries
+	 * @returns Result of the request the command was sent in
+	 */
+	run(
+		taskId: string,
+		command: Omit<SyncCommand, "uuid">,
+		variables: CommandVariables = {},
+	): Promise<SyncResult> {
+		variables.commandUuid ??= crypto.randomUUID();
+		const uuid = variables.commandUuid;
+
+		return new Promise((resolve, reject) => {
+			if (this.#queue.length === 0) {
+				this.#firstQueuedAt = Date.now();
+			}
+
+			this.#queue.push({
+				command: { ...command, uuid },
+				taskId,
+				resolve,
+				reject,
+			});
+
+			clearTimeout(this.#timeout);
+
+			if (this.#queue.length >= MAX_COMMANDS) {
+				this.#flush();
+			} else {
+				this.#timeout = setTimeout(
+					this.#flush,
+					Math.min(
+						BATCH_DELAY,
+						this.#firstQueuedAt + MAX_BATCH_WAIT - Date.now(),
+					),
+				);
+			}
+		});
+	}
+
+	#flush = () => {
+		this.#timeout = undefined;
+
+		while (this.#queue.length > 0) {
+			const batch = this.#queue.splice(0, MAX_COMMANDS);
+
+			// Send one request at a time, later commands may refer to ids created
+			// by earlier ones. A failed batch must not hold back the next ones.
+			this.#sending = this.#sending
+				.then(() => this.#send(batch))
+				.catch((error) => this.#reject(batch, error));
+		}
+	};
+
+	#resolveTempIds({ args, ...command }: SyncCommand): SyncCommand {
+		return {
+			...command,
+			args: Object.fromEntries(
+				Object.entries(args).map(([key, value]) => [
+					key,
+					(key === "id" || key === "parent_id") && typeof value === "string"
+						? (this.#tempIdMapping.get(value) ?? value)
+						: value,
+				]),
+			),
+		};
+	}
+
+	async #send(batch: QueuedCommand[]) {
+		let result: SyncResult;
+
+		try {
+			result = await this.#todoistApi().sync({
+				syncToken: this.#queryClient.getQueryData<string>(syncTokenKey) ?? "*",
+				resourceTypes: syncResourceTypes,
+				commands: batch.map(({ command }) => this.#resolveTempIds(command)),
+			});
+		} catch (error) {
+			this.#reject(batch, error);
+			return;
+		}
+
+		for (const [tempId, id] of Object.entries(result.tempIdMapping)) {
+			this.#tempIdMapping.set(tempId, id);
+		}
+
+		applySyncResult(this.#queryClient, result, [
+			...batch.map(({ taskId }) => taskId),
+			...Object.values(result.tempIdMapping),
+		]);
+
+		for (const { command, resolve, reject } of batch) {
+			const status = result.syncStatus[command.uuid];
+
+			if (status === "ok") {
+				resolve(result);
+			} else {
+				reject(
+					new TodoistRequestError(
+						status?.error ?? "Command was not processed",
+						status?.httpCode,
+						status?.errorExtra,
+					),
+				);
+			}
+		}
+	}
+
+	#reject(batch: QueuedCommand[], error: unknown) {
+		for (const { reject } of batch) {
+			reject(error instanceof Error ? error : new Error(String(error)));
+		}
+	}
+}
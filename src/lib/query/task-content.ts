@@ -0,0 +1,43 @@
+import type { QueryClient } from "@tanstack/query-core";
+import {
+	type ContentOptions,
+	fromTodoistContent,
+} from "../task/content-markdown.ts";
+
+/**
+ * Content last sent to Todoist per task, with the note content it was
+ * converted from, kept in the persisted cache. Conversions that drop Obsidian
+ * syntax are reversed with it, so unchanged lines are not rewritten.
+ */
+export const taskContentsKey = ["task-content"] as const;
+
+const taskContentKey = (taskId: string) =>
+	[...taskContentsKey, taskId] as const;
+
+export interface SentContent {
+	todoist: string;
+	obsidian: string;
+}
+
+export const setSentContent = (
+	queryClient: QueryClient,
+	taskId: string,
+	sent: SentContent,
+) => queryClient.setQueryData(taskContentKey(taskId), sent);
+
+/**
+ * Note content of Todoist content, the sent note content while Todoist has
+ * not changed it
+ */
+export function receiveContent(
+	queryClient: QueryClient,
+	taskId: string,
+	content: string,
+	options: ContentOptions,
+): string {
+	const sent = queryClient.getQueryData<SentContent>(taskContentKey(taskId));
+
+	return sent?.todoist === content
+		? sent.obsidian
+		: fromTodoistContent(content, options);
+}
@@ -0,0 +1,21 @@
+import type { QueryClient } from "@tanstack/query-core";
+
+/**
+ * Tasks whose copied lines the user chose to keep as linked mirrors of one
+ * Todoist task, kept in the persisted cache
+ */
+export const taskMirrorsKey = ["task-mirror"] as const;
+
+export const taskMirrorKey = (taskId: string) =>
+	[...taskMirrorsKey, taskId] as const;
+
+export const getMirroredTasks = (queryClient: QueryClient) =>
+	new Set(
+		queryClient
+			.getQueriesData<boolean>({ queryKey: taskMirrorsKey })
+			.filter(([, mirrored]) => mirrored)
+			.map(([queryKey]) => String(queryKey[1])),
+	);
+
+export const setTaskMirrored = (queryClient: QueryClient, taskId: string) =>
+	queryClient.setQueryData(taskMirrorKey(taskId), true);
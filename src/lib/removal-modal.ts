@@ -0,0 +1,94 @@
+import { type App, Modal, Setting } from "obsidian";
+import type { RemovedMode } from "./removed-tasks.ts";
+import type { ObsidianTask } from "./task/obsidian-task.ts";
+
+// Task names listed in the modal, the rest are counted
+const LISTED_TASKS = 10;
+
+/**
+ * Confirm closing or deleting the Todoist tasks of many removed lines
+ */
+export class RemovalModal extends Modal {
+	#tasks: ObsidianTask[];
+	#mode: RemovedMode;
+	#resolve: (confirmed: boolean) => void;
+	#resolved = false;
+
+	constructor(
+		app: App,
+		{
+			tasks,
+			mode,
+			resolve,
+		}: {
+			tasks: ObsidianTask[];
+			mode: RemovedMode;
+			resolve: (confirmed: boolean) => void;
+		},
+	) {
+		super(app);
+		this.#tasks = tasks;
+		this.#mode = mode;
+		this.#resolve = resolve;
+	}
+
+	/**
+	 * Open the modal and wait for a choice
+	 * @returns Whether the tasks should be removed, false when the modal is closed
+	 */
+	static ask(
+		app: App,
+		options: { tasks: ObsidianTask[]; mode: RemovedMode },
+	): Promise<boolean> {
+		return new Promise((resolve) => {
+			new RemovalModal(app, { ...options, resolve }).open();
+		});
+	}
+
+	onOpen() {
+		const action = this.#mode === "delete" ? "Delete" : "Close";
+		const hidden = this.#tasks.length - LISTED_TASKS;
+
+		this.titleEl.setText(`${action} ${this.#tasks.length} Todoist tasks?`);
+		this.contentEl.createEl("p", {
+			text: "The lines of these tasks were removed from your notes:",
+		});
+
+		const list = this.contentEl.createEl("ul");
+
+		for (const { content } of this.#tasks.slice(0, LISTED_TASKS)) {
+			list.createEl("li", { text: content });
+		}
+
+		if (hidden > 0) {
+			list.createEl("li", { text: `and ${hidden} more` });
+		}
+
+		new Setting(this.contentEl)
+			.addButton((button) =>
+				button
+					.setButtonText("Keep in Todoist")
+					.onClick(() => this.#choose(false)),
+			)
+			.addButton((button) =>
+				button
+					.setButtonText(`${action} tasks`)
+					.setWarning()
+					.onClick(() => this.#choose(true)),
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+
+		if (!this.#resolved) {
+			this.#resolve(false);
+		}
+	}
+
+	#choose(confirmed: boolean) {
+		this.#resolved = true;
+		this.#resolve(confirmed);
+		this.close();
+	}
+}
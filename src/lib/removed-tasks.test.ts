@@ -0,0 +1,111 @@
+import { type MutationFunction, QueryClient } from "@tanstack/query-core";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	type Mock,
+	vi,
+} from "vitest";
+import { type RemovedMode, RemovedTasks } from "./removed-tasks.ts";
+import type { ObsidianTask } from "./task/obsidian-task.ts";
+
+const task = (id: string): ObsidianTask => ({
+	id,
+	content: `Task ${id}`,
+	checked: false,
+});
+
+describe("RemovedTasks", () => {
+	let queryClient: QueryClient;
+	let mode: RemovedMode;
+	let present: Set<string>;
+	let confirm: Mock<() => Promise<boolean>>;
+	let closeTask: Mock<MutationFunction<unknown, unknown>>;
+	let deleteTask: Mock<MutationFunction<unknown, unknown>>;
+	let removedTasks: RemovedTasks;
+
+	const mutatedTaskIds = (
+		mutationFn: Mock<MutationFunction<unknown, unknown>>,
+	) => mutationFn.mock.calls.map(([, { mutationKey }]) => mutationKey?.[1]);
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		queryClient = new QueryClient();
+		closeTask = vi.fn(async () => undefined);
+		deleteTask = vi.fn(async () => undefined);
+		queryClient.setMutationDefaults(["set-checked"], {
+			mutationFn: closeTask,
+		});
+		queryClient.setMutationDefaults(["delete-task"], {
+			mutationFn: deleteTask,
+		});
+		mode = "close";
+		present = new Set();
+		confirm = vi.fn(async () => true);
+		removedTasks = new RemovedTasks({
+			queryClient,
+			mode: () => mode,
+			isPresent: (taskId) => present.has(taskId),
+			confirm,
+		});
+	});
+
+	afterEach(() => {
+		removedTasks.destroy();
+		vi.useRealTimers();
+	});
+
+	it("should close tasks once the grace period passes", async () => {
+		removedTasks.add([task("1")]);
+		await vi.advanceTimersByTimeAsync(29_000);
+
+		expect(closeTask).not.toHaveBeenCalled();
+
+		await vi.advanceTimersByTimeAsync(1_000);
+
+		expect(closeTask).toHaveBeenCalledWith(
+			{ checked: true },
+			expect.anything(),
+		);
+		expect(mutatedTaskIds(closeTask)).toEqual(["1"]);
+	});
+
+	it("should delete tasks in the delete mode", async () => {
+		mode = "delete";
+		removedTasks.add([task("1")]);
+		await vi.advanceTimersByTimeAsync(30_000);
+
+		expect(mutatedTaskIds(deleteTask)).toEqual(["1"]);
+		expect(closeTask).not.toHaveBeenCalled();
+	});
+
+	it("should leave tasks alone in the keep mode", async () => {
+		mode = "keep";
+		removedTasks.add([task("1")]);
+		await vi.advanceTimersByTimeAsync(30_000);
+
+		expect(closeTask).not.toHaveBeenCalled();
+		expect(deleteTask).not.toHaveBeenCalled();
+	});
+
+	it("should skip tasks whose lines came back in a synced note", async () => {
+		removedTasks.add([task("1"), task("2")]);
+		present.add("2");
+		await vi.advanceTimersByTimeAsync(30_000);
+
+		expect(mutatedTaskIds(closeTask)).toEqual(["1"]);
+	});
+
+	it("should ask before removing many tasks at once", async () => {
+		const tasks = ["1", "2", "3", "4", "5"].map(task);
+
+		confirm.mockResolvedValue(false);
+		removedTasks.add(tasks);
+		await vi.advanceTimersByTimeAsync(30_000);
+
+		expect(confirm).toHaveBeenCalledWith(tasks, "close");
+		expect(closeTask).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,103 @@
+import type { QueryClient } from "@tanstack/query-core";
+import { mutationDeleteTask } from "./query/mutation-delete-task.ts";
+import { mutationSetCheckedTask } from "./query/mutation-set-checked-task.ts";
+import type { ObsidianTask } from "./task/obsidian-task.ts";
+
+/**
+ * What happens to the Todoist task of a line removed from a note
+ * - keep: the task is left alone
+ * - close: the task is closed
+ * - delete: the task is deleted
+ */
+export type RemovedMode = "keep" | "close" | "delete";
+
+// Time to undo a removal or paste the line into another synced note
+const GRACE_PERIOD = 1000 * 30;
+// Removing this many tasks at once asks for confirmation
+const CONFIRM_THRESHOLD = 5;
+
+/**
+ * Closes or deletes the Todoist tasks of lines removed from synced notes,
+ * once a grace period passes without the lines coming back in any note
+ */
+export class RemovedTasks {
+	#queryClient: QueryClient;
+	#mode: () => RemovedMode;
+	#isPresent: (taskId: string) => boolean;
+	#confirm: (tasks: ObsidianTask[], mode: RemovedMode) => Promise<boolean>;
+	#timeouts = new Set<ReturnType<typeof setTimeout>>();
+
+	constructor({
+		queryClient,
+		mode,
+		isPresent,
+		confirm,
+	}: {
+		queryClient: QueryClient;
+		mode: () => RemovedMode;
+		/** Whether a task has a line in a synced note */
+		isPresent: (taskId: string) => boolean;
+		/** Ask before removing many tasks at once */
+		confirm: (tasks: ObsidianTask[], mode: RemovedMode) => Promise<boolean>;
+	}) {
+		this.#queryClient = queryClient;
+		this.#mode = mode;
+		this.#isPresent = isPresent;
+		this.#confirm = confirm;
+	}
+
+	/**
+	 * Start the grace period of tasks whose lines were removed together
+	 */
+	add(tasks: ObsidianTask[]) {
+		if (this.#mode() === "keep") return;
+
+		const timeout = setTimeout(() => {
+			this.#timeouts.delete(timeout);
+			this.#settle(tasks);
+		}, GRACE_PERIOD);
+
+		this.#timeouts.add(timeout);
+	}
+
+	/**
+	 * Forget pending removals, their tasks are left alone
+	 */
+	destroy() {
+		for (const timeout of this.#timeouts) {
+			clearTimeout(timeout);
+		}
+
+		this.#timeouts.clear();
+	}
+
+	async #settle(tasks: ObsidianTask[]) {
+		const mode = this.#mode();
+		const removed = tasks.filter(
+			({ id, checked }) =>
+				!this.#isPresent(id) && !(mode === "close" && checked),
+		);
+
+		if (mode === "keep" || removed.length === 0) return;
+
+		if (
+			removed.length >= CONFIRM_THRESHOLD &&
+			!(await this.#confirm(removed, mode))
+		) {
+			return;
+		}
+
+		for (const { id: taskId } of removed) {
+			if (mode === "close") {
+				mutationSetCheckedTask({
+					queryClient: this.#queryClient,
+					taskId,
+				}).mutate({ checked: true });
+			} else {
+				mutationDeleteTask({ queryClient: this.#queryClient, taskId }).mutate(
+					{},
+				);
+			}
+		}
+	}
+}
@@ -0,0 +1,106 @@
+import type {
+	CustomFetch,
+	CustomFetchResponse,
+} from "@doist/todoist-api-typescript";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { parseRetryAfter, RequestScheduler } from "./request-scheduler.ts";
+
+const response = (
+	status: number,
+	headers: Record<string, string> = {},
+): CustomFetchResponse => ({
+	ok: status >= 200 && status < 300,
+	status,
+	statusText: "",
+	headers,
+	text: async () => "",
+	json: async () => ({}),
+});
+
+describe("parseRetryAfter", () => {
+	it("should read seconds", () => {
+		expect(parseRetryAfter("30")).toBe(30_000);
+	});
+
+	it("should read an HTTP date", () => {
+		const now = Date.parse("2026-10-19T10:00:00Z");
+
+		expect(parseRetryAfter("Mon, 19 Oct 2026 10:01:00 GMT", now)).toBe(60_000);
+	});
+
+	it("should ignore missing and invalid values", () => {
+		expect(parseRetryAfter(undefined)).toBeUndefined();
+		expect(parseRetryAfter("soon")).toBeUndefined();
+	});
+});
+
+describe("RequestScheduler", () => {
+	let scheduler: RequestScheduler;
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		scheduler = new RequestScheduler();
+	});
+
+	afterEach(() => {
+		scheduler.destroy();
+		vi.useRealTimers();
+	});
+
+	it("should cap concurrent requests", async () => {
+		const pending: VoidFunction[] = [];
+		const customFetch: CustomFetch = vi.fn(
+			() =>
+				new Promise<CustomFetchResponse>((resolve) => {
+					pending.push(() => resolve(response(200)));
+				}),
+		);
+		const scheduledFetch = scheduler.fetch(customFetch);
+
+		const requests = Array.from({ length: 6 }, () => scheduledFetch("url"));
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(customFetch).toHaveBeenCalledTimes(4);
+
+		pending[0]();
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(customFetch).toHaveBeenCalledTimes(5);
+
+		for (const resolve of pending.slice(1)) resolve();
+		await vi.advanceTimersByTimeAsync(0);
+		pending[5]?.();
+		await Promise.all(requests);
+
+		expect(customFetch).toHaveBeenCalledTimes(6);
+	});
+
+	it("should hold requests for the Retry-After time of a 429 response", async () => {
+		const customFetch: CustomFetch = vi
+			.fn<CustomFetch>()
+			.mockResolvedValueOnce(response(429, { "Retry-After": "10" }))
+			.mockResolvedValue(response(200));
+		const listener = vi.fn();
+		const scheduledFetch = scheduler.fetch(customFetch);
+
+		scheduler.subscribe(listener);
+
+		await expect(scheduledFetch("url")).resolves.toMatchObject({
+			status: 429,
+		});
+		expect(scheduler.throttled).toBe(true);
+		expect(listener).toHaveBeenLastCalledWith(true);
+
+		const retry = scheduledFetch("url");
+		await vi.advanceTimersByTimeAsync(9_000);
+
+		expect(customFetch).toHaveBeenCalledTimes(1);
+
+		await vi.advanceTimersByTimeAsync(1_000);
+		await retry;
+
+		expect(customFetch).toHaveBeenCalledTimes(2);
+		expect(scheduler.throttled).toBe(false);
+		expect(listener).toHaveBeenLastCalledWith(false);
+	});
+});
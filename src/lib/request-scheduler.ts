@@ -0,0 +1,151 @@
+import type {
+	CustomFetch,
+	CustomFetchResponse,
+} from "@doist/todoist-api-typescript";
+
+// Todoist allows each user 1000 requests in 15 minutes
+const QUOTA = 1000;
+const QUOTA_WINDOW = 1000 * 60 * 15;
+const MAX_CONCURRENT = 4;
+// Wait after a 429 response without a Retry-After header
+const DEFAULT_RETRY_AFTER = 1000 * 60;
+
+/**
+ * Milliseconds to wait from a Retry-After header, given in seconds or as an
+ * HTTP date
+ */
+export function parseRetryAfter(
+	value: string | undefined,
+	now = Date.now(),
+): number | undefined {
+	if (!value) return undefined;
+
+	const seconds = Number(value);
+
+	if (Number.isFinite(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const date = Date.parse(value);
+
+	return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+const headerValue = (response: CustomFetchResponse, name: string) =>
+	Object.entries(response.headers).find(
+		([key]) => key.toLowerCase() === name,
+	)?.[1];
+
+/**
+ * Central queue of Todoist requests. Caps concurrent requests, keeps within
+ * the per-user quota and holds every request while Todoist asks to retry later.
+ */
+export class RequestScheduler {
+	#active = 0;
+	#waiting: VoidFunction[] = [];
+	/** Start times of requests within the quota window */
+	#sentAt: number[] = [];
+	#throttledUntil = 0;
+	#throttled = false;
+	#timeout?: ReturnType<typeof setTimeout>;
+	#listeners = new Set<(throttled: boolean) => void>();
+
+	/** Whether requests are held back by the rate limit */
+	get throttled(): boolean {
+		return this.#throttled;
+	}
+
+	/**
+	 * @param listener - Called when requests get held back or resume
+	 * @returns Unsubscribe function
+	 */
+	subscribe(listener: (throttled: boolean) => void): VoidFunction {
+		this.#listeners.add(listener);
+
+		return () => this.#listeners.delete(listener);
+	}
+
+	/**
+	 * Run requests of a fetch function through the scheduler
+	 */
+	fetch(customFetch: CustomFetch): CustomFetch {
+		return async (url, options) => {
+			await new Promise<void>((resolve) => {
+				this.#waiting.push(resolve);
+				this.#next();
+			});
+
+			try {
+				const response = await customFetch(url, options);
+
+				if (response.status === 429) {
+					this.#throttle(
+						parseRetryAfter(headerValue(response, "retry-after")) ??
+							DEFAULT_RETRY_AFTER,
+					);
+				}
+
+				return response;
+			} finally {
+				this.#active--;
+				this.#next();
+			}
+		};
+	}
+
+	destroy() {
+		clearTimeout(this.#timeout);
+		this.#listeners.clear();
+	}
+
+	#throttle(delay: number) {
+		this.#throttledUntil = Math.max(this.#throttledUntil, Date.now() + delay);
+		this.#next();
+	}
+
+	#setThrottled(throttled: boolean) {
+		if (this.#throttled === throttled) return;
+
+		this.#throttled = throttled;
+
+		for (const listener of this.#listeners) {
+			listener(throttled);
+		}
+	}
+
+	#next = () => {
+		clearTimeout(this.#timeout);
+		this.#timeout = undefined;
+
+		const now = Date.now();
+
+		this.#sentAt = this.#sentAt.filter((sentAt) => sentAt > now - QUOTA_WINDOW);
+
+		const wait = Math.max(
+			this.#throttledUntil - now,
+			this.#sentAt.length >= QUOTA ? this.#sentAt[0] + QUOTA_WINDOW - now : 0,
+		);
+
+		if (wait > 0) {
+			this.#setThrottled(true);
+			this.#timeout = setTimeout(this.#next, wait);
+			return;
+		}
+
+		this.#setThrottled(false);
+
+		while (
+			this.#active < MAX_CONCURRENT &&
+			this.#sentAt.length < QUOTA &&
+			this.#waiting.length > 0
+		) {
+			this.#active++;
+			this.#sentAt.push(now);
+			this.#waiting.shift()?.();
+		}
+
+		if (this.#waiting.length > 0 && this.#sentAt.length >= QUOTA) {
+			this.#next();
+		}
+	};
+}
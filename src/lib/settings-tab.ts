@@ -1,7 +1,19 @@
 import { getAuthStateParameter } from "@doist/todoist-api-typescript";
 import { type App, Notice, PluginSettingTab, Setting } from "obsidian";
 import type TodoisterPlugin from "../main.ts";
+import type { BacklinkMode } from "./backlink.ts";
 import { generateAuthUrl, getAccessToken, revokeAccessToken } from "./oauth.ts";
+import type { RemovedMode } from "./removed-tasks.ts";
+import type { WikilinkMode } from "./task/content-markdown.ts";
+import type {
+	CommentsMode,
+	DeletedMode,
+	MetadataStyle,
+	RecurrenceMode,
+	SectionMode,
+	StatusAction,
+	TagsMode,
+} from "./task/task-format.ts";
 
 export class TodoisterSettingTab extends PluginSettingTab {
 	plugin: TodoisterPlugin;
@@ -25,6 +37,8 @@ export class TodoisterSettingTab extends PluginSettingTab {
 		} else {
 			this.#renderDisconnectedState(containerEl);
 		}
+
+		this.#renderTaskFormatSettings(containerEl);
 	}
 
 	hide() {
@@ -62,7 +76,9 @@ export class TodoisterSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName("Project")
-			.setDesc("Select the Todoist project where tasks will be created")
+			.setDesc(
+				"Select the Todoist project where tasks will be created. Notes can override it with todoister-project in frontmatter",
+			)
 			.addDropdown((dropdown) => {
 				dropdown.setValue(this.plugin.todoistProjectId);
 				dropdown.addOption("", "Initializing...");
@@ -100,6 +116,165 @@ export class TodoisterSettingTab extends PluginSettingTab {
 			});
 	}
 
+	#renderTaskFormatSettings(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName("Task metadata format")
+			.setDesc("How due dates and priorities are written into task lines")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("emoji", "Tasks plugin (📅 2026-10-20 ⏫)")
+					.addOption("inline", "Inline fields ([due:: 2026-10-20] !!1)")
+					.setValue(this.plugin.metadataStyle)
+					.onChange((value) => {
+						this.plugin.metadataStyle = value as MetadataStyle;
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Tags")
+			.setDesc("What happens to #tags in task lines")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("content", "Keep in task content")
+					.addOption("labels", "Sync as Todoist labels")
+					.setValue(this.plugin.tagsMode)
+					.onChange((value) => {
+						this.plugin.tagsMode = value as TagsMode;
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Wikilinks")
+			.setDesc(
+				"How [[links]] in task lines appear in Todoist. Embeds and highlights are left out",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("link", "Link opening the note in Obsidian")
+					.addOption("title", "Plain note title")
+					.setValue(this.plugin.wikilinkMode)
+					.onChange((value) => {
+						this.plugin.wikilinkMode = value as WikilinkMode;
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Sections")
+			.setDesc(
+				"Which Todoist section tasks go to. Missing sections named after headings are created",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("note", "From todoister-section in frontmatter")
+					.addOption("headings", "From the heading above each task")
+					.setValue(this.plugin.sectionMode)
+					.onChange((value) => {
+						this.plugin.sectionMode = value as SectionMode;
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Recurring tasks")
+			.setDesc("What happens when a recurring task is checked")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("advance", "Move to the next due date")
+					.addOption("log", "Keep a checked copy and move to the next due date")
+					.setValue(this.plugin.recurrenceMode)
+					.onChange((value) => {
+						this.plugin.recurrenceMode = value as RecurrenceMode;
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Deleted tasks")
+			.setDesc(
+				"What happens to the line of a task deleted in Todoist. A notice offers to restore it",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("delete", "Delete the line")
+					.addOption("strike", "Strike it through")
+					.addOption("plain", "Convert to plain text")
+					.addOption("section", 'Move under a "Deleted in Todoist" heading')
+					.setValue(this.plugin.deletedMode)
+					.onChange((value) => {
+						this.plugin.deletedMode = value as DeletedMode;
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Comments")
+			.setDesc(
+				"Show Todoist comments in a collapsed callout under each task. Lines typed into the callout are posted as comments",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("off", "Do not sync")
+					.addOption("callout", "Sync in a callout")
+					.setValue(this.plugin.commentsMode)
+					.onChange((value) => {
+						this.plugin.commentsMode = value as CommentsMode;
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName("Back-links")
+			.setDesc(
+				"Comment on each task created from a note, opening the note at a block reference added to the task line",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("off", "Do not link")
+					.addOption("comment", "Add a back-link comment")
+					.setValue(this.plugin.backlinkMode)
+					.onChange((value) => {
+						this.plugin.backlinkMode = value as BacklinkMode;
+					}),
+			);
+
+		for (const [status, name] of [
+			["/", "In progress"],
+			["-", "Cancelled"],
+			[">", "Deferred"],
+		]) {
+			new Setting(containerEl)
+				.setName(`${name} checkboxes`)
+				.setDesc(`What a [${status}] checkbox means in Todoist`)
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption("off", "Do not sync the line")
+						.addOption("close", "Close the task")
+						.addOption("delete", "Delete the task")
+						.addOption("tomorrow", "Reschedule to tomorrow")
+						.addOption("in-progress", 'Add the "in-progress" label')
+						.setValue(this.plugin.statuses[status] ?? "off")
+						.onChange((value) => {
+							this.plugin.statuses = {
+								...this.plugin.statuses,
+								[status]: value as StatusAction,
+							};
+						}),
+				);
+		}
+
+		new Setting(containerEl)
+			.setName("Removed lines")
+			.setDesc(
+				"What happens to the Todoist task when its line is removed from a note. Lines moved to another synced note or restored within 30 seconds are not removed",
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("keep", "Leave the task open")
+					.addOption("close", "Close the task")
+					.addOption("delete", "Delete the task")
+					.setValue(this.plugin.removedMode)
+					.onChange((value) => {
+						this.plugin.removedMode = value as RemovedMode;
+					}),
+			);
+	}
+
 	#unsubscribe = () => {
 		if (this.#unsubscribeFromUserInfo) {
 			this.#unsubscribeFromUserInfo();
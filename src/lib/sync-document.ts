@@ -0,0 +1,64 @@
+import type { Editor, TFile, Vault } from "obsidian";
+import { applyTextEdits, type TextEdit } from "./text-edit.ts";
+
+export interface SyncDocument {
+	read(): Promise<string>;
+	/**
+	 * Apply edits computed from the current document content
+	 * @param getEdits - Called with the up to date content, returns edits to apply.
+	 * May be called more than once, only the last call is applied.
+	 */
+	edit(getEdits: (content: string) => TextEdit[]): Promise<void>;
+}
+
+/**
+ * Document backed by an open editor, used for the active file
+ * @param editor - Editor of the active file
+ * @param onEdit - Called after the plugin changed the editor content
+ */
+export function editorDocument(
+	editor: Editor,
+	onEdit?: VoidFunction,
+): SyncDocument {
+	return {
+		read: async () => editor.getValue(),
+		edit: async (getEdits) => {
+			const edits = getEdits(editor.getValue()).sort(
+				(a, b) => b.from.line - a.from.line || b.from.ch - a.from.ch,
+			);
+
+			if (edits.length === 0) return;
+
+			const cursorPos = editor.getCursor();
+
+			for (const { text, from, to } of edits) {
+				editor.replaceRange(text, from, to);
+			}
+
+			if (edits.some(({ from }) => from.line === cursorPos.line)) {
+				editor.setCursor(cursorPos);
+			}
+
+			onEdit?.();
+		},
+	};
+}
+
+/**
+ * Document backed by a vault file, used for files without an active editor
+ * @param vault - Obsidian vault
+ * @param file - Synced file
+ */
+export function vaultDocument(vault: Vault, file: TFile): SyncDocument {
+	return {
+		read: () => vault.cachedRead(file),
+		edit: async (getEdits) => {
+			// Avoid rewriting the file (and triggering a modify event) when nothing changes
+			if (getEdits(await vault.read(file)).length === 0) return;
+
+			await vault.process(file, (content) =>
+				applyTextEdits(content, getEdits(content)),
+			);
+		},
+	};
+}
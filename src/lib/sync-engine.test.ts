@@ -0,0 +1,669 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { SyncHarness } from "../test/sync-harness.ts";
+import { planFork, planRestore } from "./sync-engine.ts";
+import {
+	type DeletedMode,
+	defaultTaskFormat,
+	type TaskFormat,
+} from "./task/task-format.ts";
+import { applyTextEdits } from "./text-edit.ts";
+
+describe("planSync", () => {
+	let harness: SyncHarness;
+
+	beforeEach(() => {
+		harness = new SyncHarness("# Tasks\n- [ ] Write report\n- [ ] Call Anna");
+		harness.sync();
+	});
+
+	it("should assign ids to new lines and create them in Todoist", () => {
+		expect(harness.content).toBe(
+			"# Tasks\n- [ ] Write report %%[tid::1]%%\n- [ ] Call Anna %%[tid::2]%%",
+		);
+		expect(harness.remote.tasks.get("1")?.content).toBe("Write report");
+	});
+
+	it("should not create a task twice", () => {
+		const plan = harness.sync();
+
+		expect(plan.commands).toEqual([]);
+		expect(plan.edits).toEqual([]);
+	});
+
+	it("should send local edits", () => {
+		harness.content = harness.content.replace("Write report", "Send report");
+
+		const plan = harness.sync();
+
+		expect(plan.commands).toEqual([
+			{ type: "update", taskId: "1", changes: { content: "Send report" } },
+		]);
+		expect(harness.remote.tasks.get("1")?.content).toBe("Send report");
+	});
+
+	it("should write remote edits into the note", () => {
+		harness.edit("2", { content: "Call Anna back", dueDate: "2026-10-20" });
+
+		const plan = harness.sync("remote", { taskIds: new Set(["2"]) });
+
+		expect(plan.commands).toEqual([]);
+		expect(harness.content).toContain(
+			"- [ ] Call Anna back 📅 2026-10-20 %%[tid::2]%%",
+		);
+	});
+
+	it("should keep the block reference of a line it rewrites", () => {
+		harness.content = harness.content.replace(
+			"%%[tid::2]%%",
+			"%%[tid::2]%% ^2",
+		);
+		harness.edit("2", { content: "Call Anna back" });
+
+		harness.sync("remote", { taskIds: new Set(["2"]) });
+
+		expect(harness.content).toContain("- [ ] Call Anna back %%[tid::2]%% ^2");
+	});
+
+	it("should take Todoist fields of lines synced without a baseline", () => {
+		const upgraded = new SyncHarness("- [ ] Write report %%[tid::7]%%");
+
+		upgraded.remote.tasks.set("7", {
+			id: "7",
+			content: "Write report",
+			checked: false,
+			dueDate: "2026-10-20",
+			priority: 4,
+		});
+
+		const plan = upgraded.sync("remote");
+
+		expect(plan.commands).toEqual([]);
+		expect(upgraded.content).toBe(
+			"- [ ] Write report ⏫ 📅 2026-10-20 %%[tid::7]%%",
+		);
+		expect(upgraded.baselines.get("7")).toMatchObject({
+			dueDate: "2026-10-20",
+			priority: 4,
+		});
+	});
+
+	it("should send edits of lines synced without a baseline", () => {
+		const upgraded = new SyncHarness("- [ ] Send report %%[tid::7]%%");
+
+		upgraded.remote.tasks.set("7", {
+			id: "7",
+			content: "Write report",
+			checked: false,
+		});
+
+		const plan = upgraded.sync();
+
+		expect(plan.conflicts).toEqual([]);
+		expect(upgraded.remote.tasks.get("7")).toMatchObject({
+			content: "Send report",
+		});
+		expect(upgraded.content).toBe("- [ ] Send report %%[tid::7]%%");
+		expect(upgraded.baselines.get("7")).toMatchObject({
+			content: "Send report",
+		});
+	});
+
+	it("should merge edits of different fields", () => {
+		harness.content = harness.content.replace("Write report", "Send report");
+		harness.edit("1", { checked: true });
+
+		const plan = harness.sync();
+
+		expect(plan.conflicts).toEqual([]);
+		expect(harness.content).toContain("- [x] Send report %%[tid::1]%%");
+		expect(harness.remote.tasks.get("1")).toMatchObject({
+			content: "Send report",
+			checked: true,
+		});
+	});
+
+	it("should keep the completion date of a checked line out of Todoist", () => {
+		harness.content = harness.content.replace(
+			"- [ ] Write report",
+			"- [x] Write report ✅ 2026-10-19",
+		);
+
+		expect(harness.sync().commands).toEqual([
+			{ type: "set-checked", taskId: "1", checked: true },
+		]);
+
+		harness.edit("1", { content: "Send report" });
+		harness.sync("remote", { taskIds: new Set(["1"]) });
+
+		expect(harness.content).toContain(
+			"- [x] Send report ✅ 2026-10-19 %%[tid::1]%%",
+		);
+	});
+
+	it("should leave edits of the same field to the user", () => {
+		harness.content = harness.content.replace("Write report", "Send report");
+		harness.edit("1", { content: "Print report" });
+
+		const plan = harness.sync();
+
+		expect(plan.conflicts).toMatchObject([
+			{
+				local: { content: "Send report" },
+				remote: { content: "Print report" },
+				conflicts: ["content"],
+			},
+		]);
+		expect(plan.commands).toEqual([]);
+		expect(plan.edits).toEqual([]);
+	});
+
+	it("should not ask again about a dismissed conflict", () => {
+		harness.content = harness.content.replace("Write report", "Send report");
+		harness.edit("1", { content: "Print report" });
+
+		const [{ signature }] = harness.sync().conflicts;
+		harness.dismissedConflicts.set("1", signature);
+
+		expect(harness.sync().conflicts).toEqual([]);
+	});
+
+	it("should refetch stale Todoist data before pushing local edits", () => {
+		harness.content = harness.content.replace("Write report", "Send report");
+		harness.remote.stale.add("1");
+
+		const plan = harness.sync();
+
+		expect(plan.stale).toEqual(["1"]);
+		expect(plan.commands).toEqual([]);
+	});
+
+	it("should remove lines of tasks deleted in Todoist", () => {
+		harness.remote.deleted.add("2");
+		harness.remote.tasks.delete("2");
+
+		const plan = harness.sync("remote", { taskIds: new Set(["2"]) });
+
+		expect(plan.deleted).toEqual(["2"]);
+		expect(harness.content).toBe("# Tasks\n- [ ] Write report %%[tid::1]%%\n");
+	});
+
+	it("should move re-indented tasks under their new parent", () => {
+		harness.content = harness.content.replace("- [ ] Call", "\t- [ ] Call");
+
+		const plan = harness.sync();
+
+		expect(plan.commands).toEqual([
+			{ type: "move", taskId: "2", parentId: "1", heading: undefined },
+		]);
+		expect(harness.remote.tasks.get("2")?.parentId).toBe("1");
+	});
+
+	it("should only reconcile the given tasks", () => {
+		harness.content = harness.content.replace("Write report", "Send report");
+		harness.edit("2", { content: "Call Anna back" });
+
+		const plan = harness.sync("remote", { taskIds: new Set(["2"]) });
+
+		expect(plan.commands).toEqual([]);
+		expect(harness.content).toContain("Send report");
+		expect(harness.content).toContain("Call Anna back");
+	});
+
+	it("should skip tasks with an open conflict dialog", () => {
+		harness.edit("1", { content: "Print report" });
+
+		const plan = harness.sync("remote", { skip: new Set(["1"]) });
+
+		expect(plan.edits).toEqual([]);
+	});
+});
+
+describe("planSync with recurring tasks", () => {
+	const completeRecurring = (format: TaskFormat) => {
+		const harness = new SyncHarness("- [ ] Water plants 🔁 every week", format);
+
+		harness.sync();
+		harness.content = harness.content.replace("[ ]", "[x]");
+
+		return { harness, plan: harness.sync() };
+	};
+
+	it("should close the task in Todoist and reopen the line", () => {
+		const { harness, plan } = completeRecurring(defaultTaskFormat);
+
+		expect(plan.commands).toEqual([
+			{ type: "set-checked", taskId: "1", checked: true },
+		]);
+		expect(harness.content).toBe(
+			"- [ ] Water plants 🔁 every week %%[tid::1]%%",
+		);
+	});
+
+	it("should keep a checked copy in the log mode", () => {
+		const { harness } = completeRecurring({
+			...defaultTaskFormat,
+			recurrenceMode: "log",
+		});
+
+		expect(harness.content).toBe(
+			"- [x] Water plants ✅ 2026-10-19 %%[log]%%\n- [ ] Water plants 🔁 every week %%[tid::1]%%",
+		);
+	});
+
+	it("should write the next due date once it arrives", () => {
+		const { harness } = completeRecurring(defaultTaskFormat);
+
+		harness.sync("remote");
+
+		expect(harness.content).toBe(
+			"- [ ] Water plants 🔁 every week 📅 2026-10-26 %%[tid::1]%%",
+		);
+	});
+});
+
+describe("planSync with deleted tasks", () => {
+	const deleteTask = (deletedMode: DeletedMode, content = "") => {
+		const harness = new SyncHarness(
+			`# Tasks\n- [ ] Write report\n- [ ] Call Anna${content}`,
+			{ ...defaultTaskFormat, deletedMode },
+		);
+
+		harness.sync();
+		harness.remote.deleted.add("1");
+		harness.remote.tasks.delete("1");
+
+		return {
+			harness,
+			plan: harness.sync("remote", { taskIds: new Set(["1"]) }),
+		};
+	};
+
+	it.each([
+		["delete", "# Tasks\n- [ ] Call Anna %%[tid::2]%%"],
+		["strike", "# Tasks\n- ~~Write report~~\n- [ ] Call Anna %%[tid::2]%%"],
+		["plain", "# Tasks\n- Write report\n- [ ] Call Anna %%[tid::2]%%"],
+		[
+			"section",
+			"# Tasks\n- [ ] Call Anna %%[tid::2]%%\n\n## Deleted in Todoist\n- Write report",
+		],
+	] as const)("should handle the line in the %s mode", (mode, content) => {
+		const { harness, plan } = deleteTask(mode);
+
+		expect(plan.deleted).toEqual(["1"]);
+		expect(harness.content).toBe(content);
+	});
+
+	it("should add to an existing deleted section", () => {
+		const { harness } = deleteTask(
+			"section",
+			"\n## Deleted in Todoist\n- Old task",
+		);
+
+		expect(harness.content).toBe(
+			"# Tasks\n- [ ] Call Anna %%[tid::2]%%\n## Deleted in Todoist\n- Write report\n- Old task",
+		);
+	});
+
+	it.each([
+		"delete",
+		"strike",
+		"plain",
+		"section",
+	] as const)("should restore the line in the %s mode", (mode) => {
+		const { harness, plan } = deleteTask(mode);
+
+		harness.content = applyTextEdits(
+			harness.content,
+			planRestore(harness.content, plan.deletedLines),
+		);
+		harness.sync();
+
+		expect(harness.content).toMatch(
+			/^# Tasks\n- \[ \] Write report %%\[tid::3\]%%\n- \[ \] Call Anna %%\[tid::2\]%%/,
+		);
+		expect(harness.content).not.toContain("- Write report");
+		expect(harness.remote.tasks.get("3")?.content).toBe("Write report");
+	});
+});
+
+describe("planSync with descriptions", () => {
+	let harness: SyncHarness;
+
+	beforeEach(() => {
+		harness = new SyncHarness(
+			"- [ ] Write report\n  Send it to Anna\n- [ ] Call Anna",
+		);
+		harness.sync();
+	});
+
+	it("should create tasks with their description", () => {
+		expect(harness.content).toBe(
+			"- [ ] Write report %%[tid::1]%%\n  Send it to Anna\n- [ ] Call Anna %%[tid::2]%%",
+		);
+		expect(harness.remote.tasks.get("1")?.description).toBe("Send it to Anna");
+	});
+
+	it("should send local description edits", () => {
+		harness.content = harness.content.replace(
+			"Send it to Anna",
+			"Send it to Anna\n  and Ben",
+		);
+
+		const plan = harness.sync();
+
+		expect(plan.commands).toEqual([
+			{
+				type: "update",
+				taskId: "1",
+				changes: { description: "Send it to Anna\nand Ben" },
+			},
+		]);
+	});
+
+	it("should clear the description when its lines are removed", () => {
+		harness.content = harness.content.replace("\n  Send it to Anna", "");
+
+		const plan = harness.sync();
+
+		expect(plan.commands).toEqual([
+			{ type: "update", taskId: "1", changes: { description: null } },
+		]);
+	});
+
+	it("should keep the indentation of description lines", () => {
+		harness.content = harness.content.replace("  Send", "\tSend");
+		harness.edit("1", { content: "Send report" });
+
+		harness.sync("remote", { taskIds: new Set(["1"]) });
+
+		expect(harness.content).toBe(
+			"- [ ] Send report %%[tid::1]%%\n\tSend it to Anna\n- [ ] Call Anna %%[tid::2]%%",
+		);
+	});
+
+	it("should write remote descriptions below the task line", () => {
+		harness.edit("1", { description: undefined });
+		harness.edit("2", { description: "Ask about\n\nthe trip" });
+
+		harness.sync("remote");
+
+		expect(harness.content).toBe(
+			"- [ ] Write report %%[tid::1]%%\n- [ ] Call Anna %%[tid::2]%%\n  Ask about\n\n  the trip",
+		);
+	});
+
+	it("should keep the description of a struck deleted task", () => {
+		harness.format = { ...harness.format, deletedMode: "strike" };
+		harness.remote.deleted.add("1");
+		harness.remote.tasks.delete("1");
+
+		const plan = harness.sync("remote", { taskIds: new Set(["1"]) });
+
+		expect(harness.content).toBe(
+			"- ~~Write report~~\n  Send it to Anna\n- [ ] Call Anna %%[tid::2]%%",
+		);
+
+		harness.content = applyTextEdits(
+			harness.content,
+			planRestore(harness.content, plan.deletedLines),
+		);
+
+		expect(harness.content).toBe(
+			"- [ ] Write report\n  Send it to Anna\n- [ ] Call Anna %%[tid::2]%%",
+		);
+	});
+});
+
+describe("planSync with comments", () => {
+	let harness: SyncHarness;
+
+	beforeEach(() => {
+		harness = new SyncHarness(
+			"- [ ] Write report\n  For Anna\n- [ ] Call Anna",
+			{
+				...defaultTaskFormat,
+				commentsMode: "callout",
+			},
+		);
+		harness.sync();
+		harness.remote.comments.set("1", []);
+	});
+
+	it("should add a callout once a task has comments", () => {
+		harness.remote.addComment("1", "Looks good\nShip it");
+
+		harness.sync("remote", { taskIds: new Set(["1"]) });
+
+		expect(harness.content).toBe(
+			"- [ ] Write report %%[tid::1]%%\n  For Anna\n  > [!todoist-comments]- Comments\n  > Looks good Ship it %%[cid::c3]%%\n- [ ] Call Anna %%[tid::2]%%",
+		);
+	});
+
+	it("should post typed lines and write their ids", () => {
+		harness.remote.addComment("1", "Looks good");
+		harness.sync("remote");
+		harness.content = harness.content.replace(
+			"%%[cid::c3]%%",
+			"%%[cid::c3]%%\n  > Thanks",
+		);
+
+		const plan = harness.sync();
+
+		expect(plan.commands).toEqual([
+			{
+				type: "comment",
+				taskId: "1",
+				comment: { id: expect.stringMatching(/^obsidian-/), content: "Thanks" },
+			},
+		]);
+		expect(harness.content).toMatch(/> Thanks %%\[cid::obsidian-/);
+
+		harness.sync("remote");
+
+		expect(harness.content).toContain(
+			"  > Looks good %%[cid::c3]%%\n  > Thanks %%[cid::c4]%%\n- [ ] Call Anna",
+		);
+	});
+
+	it("should not post a line twice while it is being posted", () => {
+		harness.content = harness.content.replace(
+			"  For Anna",
+			"  For Anna\n  > [!todoist-comments]\n  > Thanks",
+		);
+
+		const plan = harness.sync("local", { comments: new Map([["1", []]]) });
+		const [command] = plan.commands;
+		const posting = new Set(
+			command?.type === "comment" ? [command.comment.id] : [],
+		);
+
+		expect(
+			harness.sync("local", {
+				comments: new Map([["1", []]]),
+				postingComments: posting,
+			}).commands,
+		).toEqual([]);
+		expect(harness.content).toContain("  > Thanks %%[cid::obsidian-");
+	});
+
+	it("should drop comments deleted in Todoist", () => {
+		harness.remote.addComment("1", "Looks good");
+		harness.sync("remote");
+		harness.remote.comments.set("1", []);
+
+		harness.sync("remote");
+
+		expect(harness.content).toBe(
+			"- [ ] Write report %%[tid::1]%%\n  For Anna\n  > [!todoist-comments]- Comments\n- [ ] Call Anna %%[tid::2]%%",
+		);
+	});
+
+	it("should remove the callout with the line of a deleted task", () => {
+		harness.remote.addComment("1", "Looks good");
+		harness.sync("remote");
+		harness.remote.deleted.add("1");
+		harness.remote.tasks.delete("1");
+
+		harness.sync("remote", { taskIds: new Set(["1"]) });
+
+		expect(harness.content).toBe("- [ ] Call Anna %%[tid::2]%%");
+	});
+});
+
+describe("planSync with copied task lines", () => {
+	let harness: SyncHarness;
+
+	beforeEach(() => {
+		harness = new SyncHarness("- [ ] Write report\n- [ ] Call Anna");
+		harness.sync();
+		harness.content += "\n- [ ] Call Anna %%[tid::2]%%";
+	});
+
+	it("should leave a copy unsynced until the user chooses", () => {
+		harness.edit("2", { content: "Call Anna back" });
+
+		const plan = harness.sync("remote");
+
+		expect(plan.duplicates).toEqual([
+			{ task: expect.objectContaining({ id: "2" }), elsewhere: false },
+		]);
+		expect(harness.content).toBe(
+			"- [ ] Write report %%[tid::1]%%\n- [ ] Call Anna back %%[tid::2]%%\n- [ ] Call Anna %%[tid::2]%%",
+		);
+	});
+
+	it("should write remote edits into mirrored copies", () => {
+		harness.edit("2", { content: "Call Anna back" });
+
+		const plan = harness.sync("remote", { mirrored: new Set(["2"]) });
+
+		expect(plan.duplicates).toEqual([]);
+		expect(harness.content).toBe(
+			"- [ ] Write report %%[tid::1]%%\n- [ ] Call Anna back %%[tid::2]%%\n- [ ] Call Anna back %%[tid::2]%%",
+		);
+	});
+
+	it("should create a forked copy as a new task", () => {
+		harness.content = applyTextEdits(
+			harness.content,
+			planFork({
+				content: harness.content,
+				format: defaultTaskFormat,
+				taskId: "2",
+				elsewhere: false,
+			}),
+		);
+		harness.sync();
+
+		expect(harness.content).toBe(
+			"- [ ] Write report %%[tid::1]%%\n- [ ] Call Anna %%[tid::2]%%\n- [ ] Call Anna %%[tid::3]%%",
+		);
+		expect(harness.remote.tasks.get("3")?.content).toBe("Call Anna");
+	});
+
+	it("should not sync a task whose original line is in another note", () => {
+		const other = new SyncHarness("- [ ] Write report %%[tid::1]%%");
+
+		other.remote = harness.remote;
+		harness.edit("1", { content: "Send report" });
+
+		const plan = other.sync("remote", { isElsewhere: (id) => id === "1" });
+
+		expect(plan.duplicates).toEqual([
+			{ task: expect.objectContaining({ id: "1" }), elsewhere: true },
+		]);
+		expect(plan.tasks.has("1")).toBe(false);
+		expect(other.content).toBe("- [ ] Write report %%[tid::1]%%");
+	});
+});
+
+describe("planSync with checkbox states", () => {
+	let harness: SyncHarness;
+
+	beforeEach(() => {
+		harness = new SyncHarness("- [ ] Call Anna");
+		harness.sync();
+	});
+
+	it("should close a cancelled task and keep its checkbox", () => {
+		harness.content = harness.content.replace("[ ]", "[-]");
+
+		const plan = harness.sync();
+
+		expect(plan.commands).toEqual([
+			{ type: "set-checked", taskId: "1", checked: true },
+		]);
+		expect(plan.edits).toEqual([]);
+
+		harness.edit("1", { content: "Call Anna back" });
+		harness.sync("remote");
+
+		expect(harness.content).toBe("- [-] Call Anna back %%[tid::1]%%");
+	});
+
+	it("should delete the task and keep the line without id", () => {
+		harness.format = {
+			...defaultTaskFormat,
+			statuses: { ...defaultTaskFormat.statuses, "-": "delete" },
+		};
+		harness.content = harness.content.replace("[ ]", "[-]");
+
+		const plan = harness.sync();
+
+		expect(plan.commands).toEqual([{ type: "delete", taskId: "1" }]);
+		expect(plan.deleted).toEqual(["1"]);
+		expect(harness.content).toBe("- [-] Call Anna");
+		expect(harness.sync().commands).toEqual([]);
+	});
+
+	it("should reschedule a deferred task to tomorrow", () => {
+		harness.content = harness.content.replace("[ ]", "[>]");
+
+		const plan = harness.sync();
+
+		expect(plan.commands).toEqual([
+			{
+				type: "update",
+				taskId: "1",
+				changes: { dueDate: "2026-10-20", recurrence: null },
+			},
+		]);
+		expect(harness.content).toBe("- [ ] Call Anna 📅 2026-10-20 %%[tid::1]%%");
+	});
+
+	it("should uncheck a deferred line already due tomorrow", () => {
+		harness.edit("1", { dueDate: "2026-10-20" });
+		harness.sync("remote");
+		harness.content = harness.content.replace("[ ]", "[>]");
+
+		const plan = harness.sync();
+
+		expect(plan.commands).toEqual([]);
+		expect(harness.content).toBe("- [ ] Call Anna 📅 2026-10-20 %%[tid::1]%%");
+	});
+
+	it("should sync the in-progress label both ways", () => {
+		harness.content = harness.content.replace("[ ]", "[/]");
+		harness.sync();
+
+		expect(harness.remote.tasks.get("1")?.labels).toEqual(["in-progress"]);
+
+		harness.edit("1", { labels: undefined });
+		harness.sync("remote");
+
+		expect(harness.content).toBe("- [ ] Call Anna %%[tid::1]%%");
+
+		harness.edit("1", { labels: ["in-progress"] });
+		harness.sync("remote");
+
+		expect(harness.content).toBe("- [/] Call Anna %%[tid::1]%%");
+	});
+
+	it("should not sync lines with other checkbox characters", () => {
+		const other = new SyncHarness("- [?] Ask Anna");
+		const plan = other.sync();
+
+		expect(plan.commands).toEqual([]);
+		expect(other.content).toBe("- [?] Ask Anna");
+	});
+});
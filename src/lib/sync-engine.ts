@@ -0,0 +1,823 @@
+import { type ParseResults, parseContent } from "./parse-content.ts";
+import { isObsidianId } from "./task/is-obsidian-id.ts";
+import type { ObsidianTask } from "./task/obsidian-task.ts";
+import {
+	COMMENTS_CALLOUT,
+	commentStringify,
+	completionLogStringify,
+	deletedTaskStringify,
+	obsidianTaskStringify,
+} from "./task/obsidian-task-stringify.ts";
+import { addDays } from "./task/recurrence.ts";
+import type { TaskComment } from "./task/task-comment.ts";
+import type { TaskFormat } from "./task/task-format.ts";
+import {
+	changedFields,
+	mergeTasks,
+	type TaskField,
+} from "./task/task-merge.ts";
+import { isStatusLabel, statusAction } from "./task/task-status.ts";
+import { tasksEquals } from "./task/tasks-equals.ts";
+import { editedLine, type TextEdit } from "./text-edit.ts";
+
+const DELETED_HEADING = "Deleted in Todoist";
+const DELETED_HEADING_REGEX = /^#{1,6}\s+Deleted in Todoist\s*$/;
+
+/** Position of a task in the note, decides its Todoist parent and section */
+export interface TaskPlacement {
+	parentId?: string;
+	heading?: string;
+}
+
+/** Task of the note with the position it is synced at */
+export interface PlannedTask extends TaskPlacement {
+	task: ObsidianTask;
+}
+
+/** Todoist state of a synced task */
+export type RemoteTaskState =
+	| {
+			task: ObsidianTask;
+			/** Older than the stale time, refetched before local edits are pushed */
+			stale: boolean;
+	  }
+	| { deleted: true };
+
+/**
+ * Change to send to Todoist
+ */
+export type RemoteCommand =
+	| ({ type: "add"; task: ObsidianTask } & TaskPlacement)
+	| {
+			type: "update";
+			taskId: string;
+			/** Changed fields, `null` clears an optional field */
+			changes: {
+				content?: string;
+				dueDate?: string | null;
+				priority?: number | null;
+				labels?: string[] | null;
+				recurrence?: string | null;
+				description?: string | null;
+			};
+	  }
+	| { type: "set-checked"; taskId: string; checked: boolean }
+	| { type: "delete"; taskId: string }
+	| {
+			type: "comment";
+			taskId: string;
+			/** Line typed into the comments callout, with its temporary id */
+			comment: { id: string; content: string };
+	  }
+	| ({ type: "move"; taskId: string } & TaskPlacement);
+
+/**
+ * Task edited both in the note and in Todoist since the last sync
+ */
+export interface TaskConflict {
+	local: ObsidianTask;
+	remote: ObsidianTask;
+	/** Merge of both sides, conflicting fields keep the local value */
+	merged: ObsidianTask;
+	conflicts: TaskField[];
+}
+
+/**
+ * Line of a task deleted in Todoist, kept to restore it
+ */
+export interface DeletedLine {
+	task: ObsidianTask;
+	/** Task lines to put back, without id so the task is created again */
+	text: string;
+	/** Line number of the task once the plan is applied */
+	line: number;
+	/** Lines left in place of the task or moved to the deleted section */
+	replacement?: string;
+}
+
+/**
+ * Copy of a synced task line, waiting for the user to fork or mirror it
+ */
+export interface DuplicateTask {
+	/** Task of the copied line */
+	task: ObsidianTask;
+	/** The original line is in another note, otherwise earlier in this one */
+	elsewhere: boolean;
+}
+
+/**
+ * How to resolve a copied task line
+ * - fork: the copy becomes a new Todoist task
+ * - mirror: all copies stay linked to one Todoist task
+ */
+export type DuplicateChoice = "fork" | "mirror";
+
+export interface SyncInput {
+	content: string;
+	format: TaskFormat;
+	/** Todoist state of the synced tasks, tasks without one are skipped */
+	remote: ReadonlyMap<string, RemoteTaskState>;
+	/** Task state both sides agreed on at the last sync */
+	baselines: ReadonlyMap<string, ObsidianTask>;
+	/** Tasks synced before, with their position at the last sync */
+	placements: ReadonlyMap<string, TaskPlacement>;
+	/** Side that triggered the sync, wins when there is no baseline */
+	source: "local" | "remote";
+	/** Reconcile only these tasks, all of them by default */
+	taskIds?: ReadonlySet<string>;
+	/** Tasks not to touch, e.g. while their conflict dialog is open */
+	skip?: ReadonlySet<string>;
+	/** Signatures of conflicts dismissed without a choice, by task id */
+	dismissedConflicts?: ReadonlyMap<string, string>;
+	/** Tasks whose copied lines are kept as linked mirrors */
+	mirrored?: ReadonlySet<string>;
+	/** Whether another synced note has a line of the task */
+	isElsewhere?: (taskId: string) => boolean;
+	/** Todoist comments of synced tasks, written in the callout comments mode */
+	comments?: ReadonlyMap<string, readonly TaskComment[]>;
+	/** Temporary ids of comments being posted */
+	postingComments?: ReadonlySet<string>;
+	/** Local date written into completion log lines */
+	today: string;
+}
+
+export interface SyncPlan {
+	/** Edits of the input content */
+	edits: TextEdit[];
+	commands: RemoteCommand[];
+	/** Tasks in the note by id */
+	tasks: Map<string, PlannedTask>;
+	/** New baselines of tasks both sides agree on after the plan is applied */
+	baselines: ObsidianTask[];
+	/** Tasks deleted in Todoist, their lines are handled per the deleted mode */
+	deleted: string[];
+	/** Lines of deleted tasks, one per task */
+	deletedLines: DeletedLine[];
+	/** Tasks to refetch before their local edits can be reconciled */
+	stale: string[];
+	/** Conflicts left to the user, identified by a signature of both sides */
+	conflicts: (TaskConflict & { signature: string })[];
+	/** Copied task lines left to the user, one per task, not synced meanwhile */
+	duplicates: DuplicateTask[];
+}
+
+/**
+ * Drop remote fields that are not synced with the task format. Without
+ * label sync, labels written as checkbox characters are kept.
+ */
+export function fromRemote(
+	task: ObsidianTask,
+	format: TaskFormat,
+): ObsidianTask {
+	if (format.tagsMode === "labels") {
+		return task;
+	}
+
+	const { labels, ...rest } = task;
+	const statusLabels = labels?.filter((label) => isStatusLabel(label, format));
+
+	return statusLabels?.length ? { ...rest, labels: statusLabels } : rest;
+}
+
+/**
+ * Whether an edit replaces text of a line, not only inserts before it
+ */
+const rewritesLine = ({ from, to }: TextEdit, line: number) =>
+	from.line <= line && (to.line > line || (to.line === line && to.ch > 0));
+
+/**
+ * Todoist commands that bring a remote task to the given state
+ */
+function updateCommands(
+	remote: ObsidianTask,
+	task: ObsidianTask,
+): RemoteCommand[] {
+	const fields = changedFields(remote, task);
+	const commands: RemoteCommand[] = [];
+
+	if (fields.includes("checked")) {
+		commands.push({
+			type: "set-checked",
+			taskId: task.id,
+			checked: task.checked,
+		});
+	}
+
+	const changes: Extract<RemoteCommand, { type: "update" }>["changes"] = {};
+
+	if (fields.includes("content")) {
+		changes.content = task.content;
+	}
+
+	if (fields.includes("dueDate") || fields.includes("recurrence")) {
+		changes.dueDate = task.dueDate ?? null;
+		changes.recurrence = task.recurrence ?? null;
+	}
+
+	if (fields.includes("priority")) {
+		changes.priority = task.priority ?? null;
+	}
+
+	if (fields.includes("labels")) {
+		changes.labels = task.labels ?? null;
+	}
+
+	if (fields.includes("description")) {
+		changes.description = task.description ?? null;
+	}
+
+	if (Object.keys(changes).length > 0) {
+		commands.push({ type: "update", taskId: task.id, changes });
+	}
+
+	return commands;
+}
+
+/**
+ * New state of a task written over one of its lines, keeping what only the
+ * line records
+ */
+const lineTask = (line: ObsidianTask, task: ObsidianTask): ObsidianTask => ({
+	...task,
+	...(line.priorityEmoji && { priorityEmoji: line.priorityEmoji }),
+	...(line.doneDate && { doneDate: line.doneDate }),
+	...(line.descriptionIndent && {
+		descriptionIndent: line.descriptionIndent,
+	}),
+	...(line.blockId && { blockId: line.blockId }),
+});
+
+/**
+ * Replace every line of a task that differs from its new state
+ */
+function writeEdits(
+	parseResults: ParseResults,
+	task: ObsidianTask,
+	format: TaskFormat,
+): TextEdit[] {
+	return parseResults
+		.filter(
+			(parseResult) =>
+				parseResult.task.id === task.id && !tasksEquals(parseResult.task, task),
+		)
+		.map(({ task: line, indent, from, to }) => ({
+			text: obsidianTaskStringify(lineTask(line, task), format, indent),
+			from,
+			to,
+		}));
+}
+
+/**
+ * Bring a task to one state in the note and in Todoist
+ */
+function resolvedPlan(
+	plan: SyncPlan,
+	parseResults: ParseResults,
+	format: TaskFormat,
+	local: ObsidianTask,
+	remote: ObsidianTask,
+	task: ObsidianTask,
+) {
+	plan.commands.push(...updateCommands(remote, task));
+
+	if (!tasksEquals(local, task)) {
+		plan.edits.push(...writeEdits(parseResults, task, format));
+	}
+
+	plan.baselines.push(task);
+}
+
+/**
+ * Reconcile one task. The baseline of the last sync tells which side changed,
+ * edits of different fields are merged and edits of the same field are left
+ * to the user.
+ */
+function reconcile(
+	plan: SyncPlan,
+	parseResults: ParseResults,
+	input: SyncInput,
+	local: ObsidianTask,
+	remote: ObsidianTask,
+) {
+	const base = input.baselines.get(local.id);
+
+	if (tasksEquals(local, remote)) {
+		if (!base || !tasksEquals(base, remote)) {
+			plan.baselines.push(remote);
+		}
+		return;
+	}
+
+	if (!base) {
+		resolvedPlan(
+			plan,
+			parseResults,
+			input.format,
+			local,
+			remote,
+			input.source === "local" ? local : remote,
+		);
+		return;
+	}
+
+	const { task: merged, conflicts } = mergeTasks(base, local, remote);
+
+	if (conflicts.length === 0) {
+		resolvedPlan(plan, parseResults, input.format, local, remote, merged);
+		return;
+	}
+
+	const signature = JSON.stringify([local, remote]);
+
+	if (input.dismissedConflicts?.get(local.id) !== signature) {
+		plan.conflicts.push({ local, remote, merged, conflicts, signature });
+	}
+}
+
+/**
+ * Uncheck a completed recurring task line, keeping a checked copy in the
+ * "log" recurrence mode. The next due date arrives with the Todoist task.
+ */
+function recurringCompleteEdits(
+	{ indent, from, to }: ParseResults[number],
+	completedTask: ObsidianTask,
+	format: TaskFormat,
+	today: string,
+): TextEdit {
+	const openLine = obsidianTaskStringify(
+		{ ...completedTask, checked: false },
+		format,
+		indent,
+	);
+
+	return {
+		text:
+			format.recurrenceMode === "log"
+				? `${completionLogStringify(completedTask, today, format)}\n${indent}${openLine}`
+				: openLine,
+		from,
+		to,
+	};
+}
+
+/**
+ * Edit of a task line deleted in Todoist. Removed lines and lines moved to
+ * the deleted section are cut from their place.
+ */
+function deletedEdit(
+	{ task, indent, from, to, comments }: ParseResults[number],
+	format: TaskFormat,
+): TextEdit {
+	const { deletedMode } = format;
+
+	if (deletedMode === "strike" || deletedMode === "plain") {
+		return {
+			text: deletedTaskStringify(
+				task,
+				deletedMode === "strike",
+				format,
+				indent,
+			),
+			from,
+			to,
+		};
+	}
+
+	return {
+		text: "",
+		from: { line: from.line, ch: 0 },
+		to: { line: (comments?.to ?? to).line + 1, ch: 0 },
+	};
+}
+
+/**
+ * Write the Todoist comments of a task into its callout, adding the callout
+ * when missing, and post the lines typed into it. Typed lines stay below the
+ * comments until their comment arrives.
+ */
+function commentsPlan(
+	plan: SyncPlan,
+	lines: string[],
+	{ task, indent, to, comments: callout }: ParseResults[number],
+	remote: readonly TaskComment[],
+	posting: ReadonlySet<string> = new Set(),
+) {
+	const isPosted = (id: string) =>
+		remote.some((comment) => comment.id === id || comment.tempId === id);
+	const typed = (callout?.comments ?? []).filter(
+		({ id }) => isObsidianId(id) && !isPosted(id),
+	);
+
+	for (const comment of typed) {
+		if (!posting.has(comment.id)) {
+			plan.commands.push({ type: "comment", taskId: task.id, comment });
+		}
+	}
+
+	const text = [...remote, ...typed]
+		.map((comment) => `\n${commentStringify(comment, indent)}`)
+		.join("");
+
+	if (!callout) {
+		if (text !== "") {
+			plan.edits.push({
+				text: `\n${indent}  > ${COMMENTS_CALLOUT}${text}`,
+				from: to,
+				to,
+			});
+		}
+		return;
+	}
+
+	const current = lines
+		.slice(callout.from.line + 1, callout.to.line + 1)
+		.map((line) => `\n${line}`)
+		.join("");
+
+	if (current !== text) {
+		plan.edits.push({ text, from: callout.from, to: callout.to });
+	}
+}
+
+/**
+ * Insert lines under the deleted section heading, which is added at the end
+ * of the note when missing
+ */
+function deletedSectionEdit(content: string, lines: string[]): TextEdit {
+	const contentLines = content.split("\n");
+	const heading = contentLines.findIndex((line) =>
+		DELETED_HEADING_REGEX.test(line),
+	);
+	const last = contentLines.length - 1;
+	const end = { line: last, ch: contentLines[last].length };
+	const text = lines.join("\n");
+
+	if (heading === -1) {
+		const separator = contentLines[last] === "" ? "\n" : "\n\n";
+
+		return {
+			text: `${separator}## ${DELETED_HEADING}\n${text}`,
+			from: end,
+			to: end,
+		};
+	}
+
+	if (heading === last) {
+		return { text: `\n${text}`, from: end, to: end };
+	}
+
+	const position = { line: heading + 1, ch: 0 };
+
+	return { text: `${text}\n`, from: position, to: position };
+}
+
+/**
+ * Compute the text edits and Todoist commands that bring a note and its
+ * Todoist tasks in sync. Pure, the caller applies the plan.
+ */
+export function planSync(input: SyncInput): SyncPlan {
+	const { content, format, source } = input;
+	const lines = content.split("\n");
+	// Deferred lines are synced as if the new due date was typed in
+	const rescheduled: ParseResults = [];
+	const parseResults = parseContent(content, format).map((parseResult) => {
+		if (statusAction(parseResult.task, format) !== "tomorrow") {
+			return parseResult;
+		}
+
+		const { status: _, ...task } = parseResult.task;
+		const result: ParseResults[number] = {
+			...parseResult,
+			task: { ...task, dueDate: addDays(input.today, 1) },
+		};
+
+		rescheduled.push(result);
+
+		return result;
+	});
+	const plan: SyncPlan = {
+		edits: [],
+		commands: [],
+		tasks: new Map(),
+		baselines: [],
+		deleted: [],
+		deletedLines: [],
+		stale: [],
+		conflicts: [],
+		duplicates: [],
+	};
+
+	// Lines of deleted tasks for the deleted section
+	const movedLines: string[] = [];
+
+	const isMirrored = (taskId: string) => input.mirrored?.has(taskId) ?? false;
+	// Lines written by the sync, copies only once they are mirrors
+	const syncedResults = parseResults.filter(
+		({ task, isDuplicate }) => !isDuplicate || isMirrored(task.id),
+	);
+	// Tasks of the note that are copies of a line in another note
+	const elsewhere = new Set<string>();
+
+	for (const parseResult of parseResults) {
+		const { task, isNew, isDuplicate, parentId, heading, indent, from, to } =
+			parseResult;
+
+		if (isNew) {
+			plan.edits.push({
+				text: obsidianTaskStringify(task, format, indent),
+				from,
+				to,
+			});
+		}
+
+		// A task copied to several lines is synced from its first line
+		if (isDuplicate) {
+			if (
+				!isMirrored(task.id) &&
+				!elsewhere.has(task.id) &&
+				!plan.duplicates.some((duplicate) => duplicate.task.id === task.id)
+			) {
+				plan.duplicates.push({ task, elsewhere: false });
+			}
+			continue;
+		}
+
+		const placement = input.placements.get(task.id);
+
+		if (!placement && !isMirrored(task.id) && input.isElsewhere?.(task.id)) {
+			elsewhere.add(task.id);
+			plan.duplicates.push({ task, elsewhere: true });
+			continue;
+		}
+
+		plan.tasks.set(task.id, { task, ...(placement ?? { parentId, heading }) });
+
+		if (input.taskIds && !input.taskIds.has(task.id)) continue;
+
+		if (isObsidianId(task.id)) {
+			if (!placement) {
+				plan.commands.push({ type: "add", task, parentId, heading });
+			}
+			continue;
+		}
+
+		if (input.skip?.has(task.id)) continue;
+
+		// The line stays without id, so it is not synced again
+		if (statusAction(task, format) === "delete") {
+			plan.commands.push({ type: "delete", taskId: task.id });
+			plan.edits.push(
+				...parseResults
+					.filter((result) => result.task.id === task.id)
+					.map((result) => ({
+						text: obsidianTaskStringify(
+							{ ...result.task, id: "" },
+							format,
+							result.indent,
+						),
+						from: result.from,
+						to: result.to,
+					})),
+			);
+			plan.deleted.push(task.id);
+			plan.tasks.delete(task.id);
+			continue;
+		}
+
+		const remoteState = input.remote.get(task.id);
+
+		if (!remoteState) continue;
+
+		if ("deleted" in remoteState) {
+			const { deletedMode } = format;
+			const struck = deletedMode === "strike";
+
+			plan.edits.push(
+				...parseResults
+					.filter((result) => result.task.id === task.id)
+					.map((result) => deletedEdit(result, format)),
+			);
+			plan.deleted.push(task.id);
+			plan.deletedLines.push({
+				task,
+				text:
+					indent + obsidianTaskStringify({ ...task, id: "" }, format, indent),
+				line: from.line,
+				replacement:
+					deletedMode === "delete"
+						? undefined
+						: deletedMode === "section"
+							? deletedTaskStringify(task, struck, format)
+							: indent + deletedTaskStringify(task, struck, format, indent),
+			});
+
+			if (deletedMode === "section") {
+				movedLines.push(deletedTaskStringify(task, struck, format));
+			}
+
+			plan.tasks.delete(task.id);
+			continue;
+		}
+
+		const comments =
+			format.commentsMode === "callout"
+				? input.comments?.get(task.id)
+				: undefined;
+
+		if (comments) {
+			commentsPlan(plan, lines, parseResult, comments, input.postingComments);
+		}
+
+		const remote = fromRemote(remoteState.task, format);
+
+		if (source === "remote") {
+			reconcile(plan, syncedResults, input, task, remote);
+			continue;
+		}
+
+		// Sub-tasks follow their parent, only top level tasks change section
+		const moved =
+			placement &&
+			(placement.parentId !== parentId ||
+				(!parentId && placement.heading !== heading));
+
+		// Wait for a new parent to get its Todoist id before moving
+		if (moved && !(parentId && isObsidianId(parentId))) {
+			plan.commands.push({ type: "move", taskId: task.id, parentId, heading });
+			plan.tasks.set(task.id, { task, parentId, heading });
+		}
+
+		// Todoist reopens a closed recurring task with the next due date
+		if (task.checked && !remote.checked && task.recurrence) {
+			plan.commands.push({
+				type: "set-checked",
+				taskId: task.id,
+				checked: true,
+			});
+			plan.edits.push(
+				recurringCompleteEdits(parseResult, task, format, input.today),
+			);
+			// Reconciled once the advanced Todoist task arrives
+			continue;
+		}
+
+		if (tasksEquals(remote, task) || !remoteState.stale) {
+			reconcile(plan, syncedResults, input, task, remote);
+		} else {
+			plan.stale.push(task.id);
+		}
+	}
+
+	if (movedLines.length > 0) {
+		plan.edits.push(deletedSectionEdit(content, movedLines));
+	}
+
+	// Uncheck deferred lines the plan does not rewrite already
+	for (const { task, indent, from, to } of rescheduled) {
+		if (!plan.edits.some((edit) => rewritesLine(edit, from.line))) {
+			plan.edits.push({
+				text: obsidianTaskStringify(task, format, indent),
+				from,
+				to,
+			});
+		}
+	}
+
+	for (const deletedLine of plan.deletedLines) {
+		deletedLine.line = editedLine(deletedLine.line, plan.edits);
+	}
+
+	return plan;
+}
+
+/**
+ * Plan for a task state picked by the user in a conflict dialog
+ */
+export function planResolved({
+	content,
+	format,
+	remote,
+	task,
+	mirrored,
+}: {
+	content: string;
+	format: TaskFormat;
+	remote: ObsidianTask;
+	task: ObsidianTask;
+	mirrored?: ReadonlySet<string>;
+}): SyncPlan {
+	const parseResults = parseContent(content, format).filter(
+		({ isDuplicate }) => !isDuplicate || mirrored?.has(task.id),
+	);
+	const local =
+		parseResults.find((result) => result.task.id === task.id)?.task ?? task;
+	const plan: SyncPlan = {
+		edits: [],
+		commands: [],
+		tasks: new Map(),
+		baselines: [],
+		deleted: [],
+		deletedLines: [],
+		stale: [],
+		conflicts: [],
+		duplicates: [],
+	};
+
+	resolvedPlan(plan, parseResults, format, local, remote, task);
+
+	return plan;
+}
+
+/**
+ * Put the lines of deleted tasks back without ids, so the next sync creates
+ * the tasks again. Lines left in their place or moved to the deleted section
+ * are dropped.
+ */
+export function planRestore(
+	content: string,
+	deletedLines: DeletedLine[],
+): TextEdit[] {
+	const lines = content.split("\n");
+	const edits: TextEdit[] = [];
+	const inserts = new Map<number, string[]>();
+	const isReplacementAt = (index: number, replacement: string[]) =>
+		replacement.every((text, offset) => lines[index + offset] === text);
+
+	for (const { text, line, replacement } of deletedLines) {
+		const position = Math.min(line, lines.length);
+		const replacementLines = replacement?.split("\n");
+
+		if (replacementLines && isReplacementAt(position, replacementLines)) {
+			const last = position + replacementLines.length - 1;
+
+			edits.push({
+				text,
+				from: { line: position, ch: 0 },
+				to: { line: last, ch: lines[last].length },
+			});
+			continue;
+		}
+
+		const moved = replacementLines
+			? lines.findIndex((_, index) => isReplacementAt(index, replacementLines))
+			: -1;
+
+		if (moved !== -1 && replacementLines) {
+			edits.push({
+				text: "",
+				from: { line: moved, ch: 0 },
+				to: { line: moved + replacementLines.length, ch: 0 },
+			});
+		}
+
+		inserts.set(position, [...(inserts.get(position) ?? []), text]);
+	}
+
+	// Inserted after the removals, which may start at the same position
+	for (const [position, texts] of inserts) {
+		edits.push(
+			position < lines.length
+				? {
+						text: texts.map((text) => `${text}\n`).join(""),
+						from: { line: position, ch: 0 },
+						to: { line: position, ch: 0 },
+					}
+				: {
+						text: texts.map((text) => `\n${text}`).join(""),
+						from: { line: position, ch: 0 },
+						to: { line: position, ch: 0 },
+					},
+		);
+	}
+
+	return edits;
+}
+
+/**
+ * Drop the id from copies of a task line, so the next sync creates each
+ * copy as a new Todoist task
+ * @param elsewhere - The original line is in another note, every line of the
+ * task in this note is a copy
+ */
+export function planFork({
+	content,
+	format,
+	taskId,
+	elsewhere,
+}: {
+	content: string;
+	format: TaskFormat;
+	taskId: string;
+	elsewhere: boolean;
+}): TextEdit[] {
+	return parseContent(content, format)
+		.filter(
+			({ task, isDuplicate }) =>
+				task.id === taskId && (elsewhere || isDuplicate),
+		)
+		.map(({ task, indent, from, to }) => ({
+			text: obsidianTaskStringify({ ...task, id: "" }, format, indent),
+			from,
+			to,
+		}));
+}
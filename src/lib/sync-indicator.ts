@@ -1,14 +1,22 @@
 import type { QueryClient } from "@tanstack/query-core";
 import { setIcon } from "obsidian";
+import type { RequestScheduler } from "./request-scheduler.ts";
 
 export class SyncIndicator {
 	#queryClient: QueryClient;
+	#requestScheduler: RequestScheduler;
 	#element: HTMLElement;
 	#unsubscribeQuery: VoidFunction;
 	#unsubscribeMutation: VoidFunction;
+	#unsubscribeScheduler: VoidFunction;
 
-	constructor(queryClient: QueryClient, element: HTMLElement) {
+	constructor(
+		queryClient: QueryClient,
+		requestScheduler: RequestScheduler,
+		element: HTMLElement,
+	) {
 		this.#queryClient = queryClient;
+		this.#requestScheduler = requestScheduler;
 		this.#element = element;
 
 		this.#element.addEventListener("click", this.#onClick);
@@ -19,6 +27,9 @@ export class SyncIndicator {
 		this.#unsubscribeMutation = this.#queryClient
 			.getMutationCache()
 			.subscribe(this.#updateElement);
+		this.#unsubscribeScheduler = this.#requestScheduler.subscribe(
+			this.#updateElement,
+		);
 
 		this.#updateElement();
 	}
@@ -26,11 +37,13 @@ export class SyncIndicator {
 	destroy() {
 		this.#unsubscribeQuery();
 		this.#unsubscribeMutation();
+		this.#unsubscribeScheduler();
 		this.#element.removeEventListener("click", this.#onClick);
 	}
 
 	#onClick = () => {
 		if (
+			this.#requestScheduler.throttled ||
 			this.#queryClient.isFetching() > 0 ||
 			this.#queryClient.isMutating() > 0
 		)
@@ -45,6 +58,14 @@ export class SyncIndicator {
 
 		this.#element.empty();
 
+		if (this.#requestScheduler.throttled) {
+			setIcon(this.#element.createSpan(), "hourglass");
+			this.#element.createSpan({ text: " throttled" });
+			this.#element.ariaLabel =
+				"Todoist rate limit reached. Syncing resumes automatically.";
+			return;
+		}
+
 		if (downloadCount > 0) {
 			setIcon(this.#element.createSpan({ cls: "syncing" }), "arrow-down");
 			this.#element.createSpan({ text: ` ${downloadCount}` });
@@ -0,0 +1,136 @@
+import type { TodoistApi } from "@doist/todoist-api-typescript";
+import { QueryClient } from "@tanstack/query-core";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { setAddSectionMutationDefaults } from "./query/mutation-add-section.ts";
+import { hasProjectOverride, resolveTaskTarget } from "./task-target.ts";
+
+const sections = [
+	{ id: "s1", projectId: "p2", name: "Backend" },
+	{ id: "s2", projectId: "p2", name: "Design" },
+];
+
+const todoistApi = {
+	getProjects: vi.fn(async () => ({
+		results: [
+			{ id: "p1", name: "Inbox" },
+			{ id: "p2", name: "Work" },
+		],
+		nextCursor: null,
+	})),
+	getSections: vi.fn(async ({ projectId }: { projectId: string }) => ({
+		results: sections.filter((section) => section.projectId === projectId),
+		nextCursor: null,
+	})),
+	addSection: vi.fn(
+		async ({ projectId, name }: { projectId: string; name: string }) => {
+			const section = { id: `s${sections.length + 1}`, projectId, name };
+			sections.push(section);
+			return section;
+		},
+	),
+} as unknown as TodoistApi;
+
+describe("resolveTaskTarget", () => {
+	let queryClient: QueryClient;
+
+	const resolve = (
+		frontmatter: Record<string, unknown> | undefined,
+		defaultProjectId?: string,
+		heading?: string,
+	) =>
+		resolveTaskTarget({
+			queryClient,
+			todoistApi: () => todoistApi,
+			frontmatter,
+			defaultProjectId,
+			heading,
+		});
+
+	beforeEach(() => {
+		queryClient = new QueryClient();
+		setAddSectionMutationDefaults({
+			queryClient,
+			todoistApi: () => todoistApi,
+		});
+		vi.mocked(todoistApi.addSection).mockClear();
+		sections.splice(2);
+	});
+
+	it("should use default project without frontmatter", async () => {
+		await expect(resolve(undefined, "p1")).resolves.toEqual({
+			projectId: "p1",
+		});
+	});
+
+	it("should resolve project by name", async () => {
+		await expect(
+			resolve({ "todoister-project": "work" }, "p1"),
+		).resolves.toEqual({ projectId: "p2" });
+	});
+
+	it("should resolve project by numeric id", async () => {
+		await expect(resolve({ "todoister-project": "p2" })).resolves.toEqual({
+			projectId: "p2",
+		});
+	});
+
+	it("should resolve section by name within the project", async () => {
+		await expect(
+			resolve({
+				"todoister-project": "Work",
+				"todoister-section": "Design",
+			}),
+		).resolves.toEqual({ projectId: "p2", sectionId: "s2" });
+	});
+
+	it("should use existing section named after the heading", async () => {
+		await expect(
+			resolve({ "todoister-section": "Backend" }, "p2", "design"),
+		).resolves.toEqual({ projectId: "p2", sectionId: "s2" });
+		expect(todoistApi.addSection).not.toHaveBeenCalled();
+	});
+
+	it("should create missing heading section once", async () => {
+		const targets = await Promise.all([
+			resolve({}, "p2", "Frontend"),
+			resolve({}, "p2", "Frontend"),
+		]);
+
+		expect(targets).toEqual([
+			{ projectId: "p2", sectionId: "s3" },
+			{ projectId: "p2", sectionId: "s3" },
+		]);
+		expect(todoistApi.addSection).toHaveBeenCalledTimes(1);
+		expect(todoistApi.addSection).toHaveBeenCalledWith({
+			projectId: "p2",
+			name: "Frontend",
+		});
+	});
+
+	it("should reject unknown project", async () => {
+		await expect(
+			resolve({ "todoister-project": "Missing" }, "p1"),
+		).rejects.toThrow('Todoist project "Missing" not found');
+	});
+
+	it("should reject unknown section", async () => {
+		await expect(
+			resolve({ "todoister-section": "Backend" }, "p1"),
+		).rejects.toThrow('Todoist section "Backend" not found');
+	});
+
+	it("should reject missing project", async () => {
+		await expect(resolve({})).rejects.toThrow(
+			"Todoist project is not configured",
+		);
+	});
+});
+
+describe("hasProjectOverride", () => {
+	it("should detect project frontmatter", () => {
+		expect(hasProjectOverride({ "todoister-project": "Work" })).toBe(true);
+		expect(hasProjectOverride({ "todoister-project": 12345 })).toBe(true);
+		expect(hasProjectOverride({ "todoister-project": "" })).toBe(false);
+		expect(hasProjectOverride(undefined)).toBe(false);
+	});
+});
@@ -0,0 +1,118 @@
+import type { TodoistApi } from "@doist/todoist-api-typescript";
+import type { QueryClient } from "@tanstack/query-core";
+import type { FrontMatterCache } from "obsidian";
+import { mutationAddSection } from "./query/mutation-add-section.ts";
+import { fetchProjectList } from "./query/query-project-list.ts";
+import { fetchSectionList } from "./query/query-section-list.ts";
+
+export const PROJECT_FRONTMATTER_KEY = "todoister-project";
+export const SECTION_FRONTMATTER_KEY = "todoister-section";
+
+/**
+ * Where new tasks of a note are created in Todoist
+ */
+export interface TaskTarget {
+	projectId: string;
+	sectionId?: string;
+}
+
+function findByIdOrName<T extends { id: string; name: string }>(
+	items: T[],
+	value: string,
+): T | undefined {
+	const name = value.trim().toLowerCase();
+
+	return (
+		items.find(({ id }) => id === value.trim()) ??
+		items.find((item) => item.name.toLowerCase() === name)
+	);
+}
+
+function frontmatterValue(
+	frontmatter: FrontMatterCache | undefined,
+	key: string,
+): string | undefined {
+	const value = frontmatter?.[key];
+
+	if (value === undefined || value === null || value === "") {
+		return undefined;
+	}
+
+	return String(value);
+}
+
+/**
+ * Check whether a note chooses its own Todoist project
+ * @param frontmatter - Note frontmatter
+ */
+export function hasProjectOverride(
+	frontmatter: FrontMatterCache | undefined,
+): boolean {
+	return frontmatterValue(frontmatter, PROJECT_FRONTMATTER_KEY) !== undefined;
+}
+
+/**
+ * Resolve the Todoist project and section of a note. Frontmatter may set them
+ * by name or by id, otherwise the default project from settings is used.
+ * A heading picks the section with the same name, creating it when missing.
+ * @param frontmatter - Note frontmatter
+ * @param defaultProjectId - Project from plugin settings
+ * @param heading - Heading above the task, takes precedence over frontmatter section
+ * @throws Error when the project or section cannot be found
+ */
+export async function resolveTaskTarget({
+	queryClient,
+	todoistApi,
+	frontmatter,
+	defaultProjectId,
+	heading,
+}: {
+	queryClient: QueryClient;
+	todoistApi: () => TodoistApi;
+	frontmatter: FrontMatterCache | undefined;
+	defaultProjectId: string | undefined;
+	heading?: string;
+}): Promise<TaskTarget> {
+	const project = frontmatterValue(frontmatter, PROJECT_FRONTMATTER_KEY);
+	const section = frontmatterValue(frontmatter, SECTION_FRONTMATTER_KEY);
+	let projectId = defaultProjectId;
+
+	if (project) {
+		const projects = await fetchProjectList({ queryClient, todoistApi });
+
+		projectId = findByIdOrName(projects, project)?.id;
+
+		if (!projectId) {
+			throw new Error(`Todoist project "${project}" not found`);
+		}
+	}
+
+	if (!projectId) {
+		throw new Error("Todoist project is not configured");
+	}
+
+	if (heading) {
+		const { id: sectionId } = await mutationAddSection({
+			queryClient,
+		}).mutate({ projectId, name: heading });
+
+		return { projectId, sectionId };
+	}
+
+	if (!section) {
+		return { projectId };
+	}
+
+	const sections = await fetchSectionList({
+		queryClient,
+		todoistApi,
+		projectId,
+	});
+	const sectionId = findByIdOrName(sections, section)?.id;
+
+	if (!sectionId) {
+		throw new Error(`Todoist section "${section}" not found`);
+	}
+
+	return { projectId, sectionId };
+}
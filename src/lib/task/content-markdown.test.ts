@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+	type ContentOptions,
+	fromTodoistContent,
+	toTodoistContent,
+} from "./content-markdown.ts";
+
+const linkOptions: ContentOptions = { vault: "My Notes", wikilinkMode: "link" };
+const titleOptions: ContentOptions = {
+	vault: "My Notes",
+	wikilinkMode: "title",
+};
+
+describe("toTodoistContent", () => {
+	it("should turn wikilinks into obsidian:// links", () => {
+		expect(toTodoistContent("Read [[Dune]]", linkOptions)).toBe(
+			"Read [Dune](obsidian://open?vault=My%20Notes&file=Dune)",
+		);
+		expect(
+			toTodoistContent("Read [[Books/Dune (1965)|the book]]", linkOptions),
+		).toBe(
+			"Read [the book](obsidian://open?vault=My%20Notes&file=Books%2FDune%20%281965%29)",
+		);
+	});
+
+	it("should turn wikilinks into plain titles", () => {
+		expect(
+			toTodoistContent("Call [[Alice]] about [[Trip|the trip]]", titleOptions),
+		).toBe("Call Alice about the trip");
+	});
+
+	it("should strip embeds and comments and keep bold and italics", () => {
+		expect(
+			toTodoistContent(
+				"**Fix** the _door_ ![[door.png]] %%ask landlord%%",
+				linkOptions,
+			),
+		).toBe("**Fix** the _door_");
+	});
+
+	it("should unwrap highlights", () => {
+		expect(toTodoistContent("Pay ==rent== today", linkOptions)).toBe(
+			"Pay rent today",
+		);
+	});
+});
+
+describe("fromTodoistContent", () => {
+	it("should turn links to notes of the vault back into wikilinks", () => {
+		for (const content of [
+			"Read [[Dune]]",
+			"Read [[Books/Dune (1965)|the book]]",
+		]) {
+			expect(
+				fromTodoistContent(toTodoistContent(content, linkOptions), linkOptions),
+			).toBe(content);
+		}
+	});
+
+	it("should keep links to other vaults and web links", () => {
+		const content =
+			"See [Dune](obsidian://open?vault=Work&file=Dune) and [site](https://example.com)";
+
+		expect(fromTodoistContent(content, linkOptions)).toBe(content);
+	});
+});
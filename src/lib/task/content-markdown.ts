@@ -0,0 +1,80 @@
+/**
+ * How wikilinks of a task line are sent to Todoist
+ * - link: markdown link opening the note through an obsidian:// URL
+ * - title: plain note title, or the link alias
+ */
+export type WikilinkMode = "link" | "title";
+
+export interface ContentOptions {
+	/** Vault name of obsidian:// links */
+	vault: string;
+	wikilinkMode: WikilinkMode;
+}
+
+const EMBED_REGEX = /\s*!\[\[[^\]]*\]\]/g;
+const WIKILINK_REGEX = /\[\[(?<target>[^\]|]+)(?:\|(?<alias>[^\]]+))?\]\]/g;
+const HIGHLIGHT_REGEX = /==(?<text>[^=\n]+)==/g;
+const COMMENT_REGEX = /\s*%%.*?%%/g;
+const OBSIDIAN_LINK_REGEX =
+	/\[(?<text>[^\]]+)\]\(obsidian:\/\/open\?vault=(?<vault>[^&)]+)&file=(?<file>[^)]+)\)/g;
+
+// Parentheses would end the markdown link, encodeURIComponent keeps them
+const encodeParam = (value: string) =>
+	encodeURIComponent(value).replace(
+		/[()]/g,
+		(char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+	);
+
+/**
+ * obsidian:// URL of an action, its parameters encoded to fit in a markdown
+ * link
+ */
+export const obsidianUrl = (action: string, params: Record<string, string>) =>
+	`obsidian://${action}?${Object.entries(params)
+		.map(([key, value]) => `${key}=${encodeParam(value)}`)
+		.join("&")}`;
+
+/**
+ * Convert task content of a note into Todoist markdown. Embeds, highlights
+ * and comments are Obsidian syntax and dropped, bold and italics are kept.
+ * @param content - Task content without metadata
+ */
+export function toTodoistContent(
+	content: string,
+	{ vault, wikilinkMode }: ContentOptions,
+): string {
+	return content
+		.replace(EMBED_REGEX, "")
+		.replace(COMMENT_REGEX, "")
+		.replace(HIGHLIGHT_REGEX, "$<text>")
+		.replace(WIKILINK_REGEX, (_, target: string, alias?: string) => {
+			const text = alias ?? target;
+
+			return wikilinkMode === "link"
+				? `[${text}](${obsidianUrl("open", { vault, file: target })})`
+				: text;
+		})
+		.trim();
+}
+
+/**
+ * Convert Todoist content into task content of a note, obsidian:// links to
+ * notes of the vault become wikilinks again
+ */
+export function fromTodoistContent(
+	content: string,
+	{ vault }: ContentOptions,
+): string {
+	return content.replace(
+		OBSIDIAN_LINK_REGEX,
+		(link, text: string, linkVault: string, file: string) => {
+			if (decodeURIComponent(linkVault) !== vault) {
+				return link;
+			}
+
+			const target = decodeURIComponent(file);
+
+			return text === target ? `[[${target}]]` : `[[${target}|${text}]]`;
+		},
+	);
+}
@@ -1,5 +1,11 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { obsidianTaskParse } from "./obsidian-task-parse.ts";
+import { defaultTaskFormat, type TaskFormat } from "./task-format.ts";
+
+const labelsFormat: TaskFormat = {
+	...defaultTaskFormat,
+	tagsMode: "labels",
+};
 
 describe("obsidianTaskParse", () => {
 	let mockCounter = 0;
@@ -58,6 +64,22 @@ describe("obsidianTaskParse", () => {
 			});
 		});
 
+		it("should read the block reference after the Todoist ID", () => {
+			expect(
+				obsidianTaskParse(
+					"- [ ] Buy groceries %%[tid::6fFV2rp7xrgggxqR]%% ^6fFV2rp7xrgggxqR",
+				),
+			).toEqual({
+				task: {
+					content: "Buy groceries",
+					checked: false,
+					id: "6fFV2rp7xrgggxqR",
+					blockId: "6fFV2rp7xrgggxqR",
+				},
+				isNew: false,
+			});
+		});
+
 		it("should trim whitespace from content", () => {
 			expect(obsidianTaskParse("- [ ]   Buy groceries   ")).toEqual({
 				task: {
@@ -186,4 +208,365 @@ describe("obsidianTaskParse", () => {
 			});
 		});
 	});
+
+	describe("due dates", () => {
+		it("should parse Tasks plugin due date", () => {
+			expect(
+				obsidianTaskParse(
+					"- [ ] Buy groceries 📅 2026-10-20 %%[tid::6fFV2rp7xrgggxqR]%%",
+				),
+			).toEqual({
+				task: {
+					content: "Buy groceries",
+					checked: false,
+					id: "6fFV2rp7xrgggxqR",
+					dueDate: "2026-10-20",
+				},
+				isNew: false,
+			});
+		});
+
+		it("should parse Dataview due date", () => {
+			expect(
+				obsidianTaskParse("- [ ] Buy groceries [due:: 2026-10-20]"),
+			).toEqual({
+				task: {
+					content: "Buy groceries",
+					checked: false,
+					id: "obsidian-test-uuid-0",
+					dueDate: "2026-10-20",
+				},
+				isNew: true,
+			});
+		});
+
+		it("should parse due date in the middle of content", () => {
+			expect(obsidianTaskParse("- [ ] Buy 📅 2026-10-20 groceries")).toEqual({
+				task: {
+					content: "Buy groceries",
+					checked: false,
+					id: "obsidian-test-uuid-0",
+					dueDate: "2026-10-20",
+				},
+				isNew: true,
+			});
+		});
+
+		it("should keep invalid due date in content", () => {
+			expect(obsidianTaskParse("- [ ] Buy groceries 📅 tomorrow")).toEqual({
+				task: {
+					content: "Buy groceries 📅 tomorrow",
+					checked: false,
+					id: "obsidian-test-uuid-0",
+				},
+				isNew: true,
+			});
+		});
+	});
+
+	describe("priorities", () => {
+		it.each([
+			["⏫", 4],
+			["🔼", 3],
+			["🔽", 2],
+		])("should parse %s emoji as priority %i", (emoji, priority) => {
+			expect(obsidianTaskParse(`- [ ] Buy groceries ${emoji}`)).toEqual({
+				task: {
+					content: "Buy groceries",
+					checked: false,
+					id: "obsidian-test-uuid-0",
+					priority,
+				},
+				isNew: true,
+			});
+		});
+
+		it.each([
+			["!!1", 4],
+			["!!2", 3],
+			["!!3", 2],
+		])("should parse %s token as priority %i", (token, priority) => {
+			expect(obsidianTaskParse(`- [ ] Buy groceries ${token}`)).toEqual({
+				task: {
+					content: "Buy groceries",
+					checked: false,
+					id: "obsidian-test-uuid-0",
+					priority,
+				},
+				isNew: true,
+			});
+		});
+
+		it("should keep the highest and lowest emojis of the line", () => {
+			expect(obsidianTaskParse("- [ ] Buy groceries 🔺")?.task).toEqual({
+				content: "Buy groceries",
+				checked: false,
+				id: "obsidian-test-uuid-0",
+				priority: 4,
+				priorityEmoji: "🔺",
+			});
+			expect(obsidianTaskParse("- [ ] Buy groceries ⏬")?.task).toEqual({
+				content: "Buy groceries",
+				checked: false,
+				id: "obsidian-test-uuid-1",
+				priorityEmoji: "⏬",
+			});
+		});
+
+		it("should not set priority for normal priority markers", () => {
+			expect(obsidianTaskParse("- [ ] Buy groceries !!4")).toEqual({
+				task: {
+					content: "Buy groceries",
+					checked: false,
+					id: "obsidian-test-uuid-0",
+				},
+				isNew: true,
+			});
+		});
+
+		it("should parse priority together with due date", () => {
+			expect(
+				obsidianTaskParse(
+					"- [ ] Buy groceries ⏫ 📅 2026-10-20 %%[tid::6fFV2rp7xrgggxqR]%%",
+				),
+			).toEqual({
+				task: {
+					content: "Buy groceries",
+					checked: false,
+					id: "6fFV2rp7xrgggxqR",
+					dueDate: "2026-10-20",
+					priority: 4,
+				},
+				isNew: false,
+			});
+		});
+
+		it("should keep exclamation marks that are not priority tokens", () => {
+			expect(obsidianTaskParse("- [ ] Ship it!!1")).toEqual({
+				task: {
+					content: "Ship it!!1",
+					checked: false,
+					id: "obsidian-test-uuid-0",
+				},
+				isNew: true,
+			});
+		});
+	});
+
+	describe("tags", () => {
+		it("should keep tags in content by default", () => {
+			expect(obsidianTaskParse("- [ ] Buy #errand groceries")).toEqual({
+				task: {
+					content: "Buy #errand groceries",
+					checked: false,
+					id: "obsidian-test-uuid-0",
+				},
+				isNew: true,
+			});
+		});
+
+		it("should move tags into labels in labels mode", () => {
+			expect(
+				obsidianTaskParse("- [ ] Buy #errand groceries #home", labelsFormat),
+			).toEqual({
+				task: {
+					content: "Buy groceries",
+					checked: false,
+					id: "obsidian-test-uuid-0",
+					labels: ["errand", "home"],
+				},
+				isNew: true,
+			});
+		});
+
+		it("should deduplicate labels", () => {
+			expect(
+				obsidianTaskParse("- [ ] #errand Buy groceries #errand", labelsFormat),
+			).toEqual({
+				task: {
+					content: "Buy groceries",
+					checked: false,
+					id: "obsidian-test-uuid-0",
+					labels: ["errand"],
+				},
+				isNew: true,
+			});
+		});
+
+		it("should support nested tags", () => {
+			expect(
+				obsidianTaskParse("- [ ] Buy groceries #home/kitchen", labelsFormat),
+			).toEqual({
+				task: {
+					content: "Buy groceries",
+					checked: false,
+					id: "obsidian-test-uuid-0",
+					labels: ["home/kitchen"],
+				},
+				isNew: true,
+			});
+		});
+
+		it("should not treat numbers, headings links or anchors as tags", () => {
+			expect(
+				obsidianTaskParse(
+					"- [ ] Fix #123 in [[Note#Heading]] and [link](https://x.com/#top)",
+					labelsFormat,
+				),
+			).toEqual({
+				task: {
+					content:
+						"Fix #123 in [[Note#Heading]] and [link](https://x.com/#top)",
+					checked: false,
+					id: "obsidian-test-uuid-0",
+				},
+				isNew: true,
+			});
+		});
+	});
+
+	describe("recurrence", () => {
+		it("should parse Tasks plugin recurrence", () => {
+			expect(
+				obsidianTaskParse(
+					"- [ ] Water plants 🔁 every week 📅 2026-10-20 %%[tid::123]%%",
+				),
+			).toEqual({
+				task: {
+					content: "Water plants",
+					checked: false,
+					id: "123",
+					dueDate: "2026-10-20",
+					recurrence: "every week",
+				},
+				isNew: false,
+			});
+		});
+
+		it("should parse inline recurrence field", () => {
+			expect(
+				obsidianTaskParse(
+					"- [ ] Water plants [repeat:: every 2 days] [due:: 2026-10-20] %%[tid::123]%%",
+				),
+			).toEqual({
+				task: {
+					content: "Water plants",
+					checked: false,
+					id: "123",
+					dueDate: "2026-10-20",
+					recurrence: "every 2 days",
+				},
+				isNew: false,
+			});
+		});
+
+		it("should stop emoji recurrence at the next marker", () => {
+			expect(
+				obsidianTaskParse("- [ ] Water plants 🔁 every monday ⏫ #home"),
+			).toEqual({
+				task: {
+					content: "Water plants #home",
+					checked: false,
+					id: "obsidian-test-uuid-0",
+					priority: 4,
+					recurrence: "every monday",
+				},
+				isNew: true,
+			});
+		});
+
+		it("should skip completion log lines without id", () => {
+			expect(
+				obsidianTaskParse(
+					"- [x] Water plants 📅 2026-10-20 ✅ 2026-10-20 %%[log]%%",
+				),
+			).toBeUndefined();
+			expect(
+				obsidianTaskParse(
+					"- [x] Water plants [completion:: 2026-10-20] %%[log]%%",
+				),
+			).toBeUndefined();
+		});
+
+		it("should create checked lines with a completion date", () => {
+			expect(obsidianTaskParse("- [x] foo ✅ 2026-10-19")).toEqual({
+				task: {
+					content: "foo",
+					checked: true,
+					id: "obsidian-test-uuid-0",
+					doneDate: "2026-10-19",
+				},
+				isNew: true,
+			});
+		});
+
+		it("should extract the completion date of tracked lines", () => {
+			expect(
+				obsidianTaskParse("- [x] Send report ✅ 2026-10-19 %%[tid::123]%%"),
+			).toEqual({
+				task: {
+					content: "Send report",
+					checked: true,
+					id: "123",
+					doneDate: "2026-10-19",
+				},
+				isNew: false,
+			});
+			expect(
+				obsidianTaskParse(
+					"- [x] Send report [completion:: 2026-10-19] %%[tid::123]%%",
+				)?.task,
+			).toMatchObject({ content: "Send report", doneDate: "2026-10-19" });
+		});
+	});
+
+	describe("checkbox states", () => {
+		it("should parse a cancelled line as closed", () => {
+			expect(obsidianTaskParse("- [-] Call Anna %%[tid::123]%%")).toEqual({
+				task: {
+					content: "Call Anna",
+					checked: true,
+					id: "123",
+					status: "-",
+				},
+				isNew: false,
+			});
+		});
+
+		it("should add the in-progress label", () => {
+			expect(obsidianTaskParse("- [/] Call Anna %%[tid::123]%%")).toEqual({
+				task: {
+					content: "Call Anna",
+					checked: false,
+					id: "123",
+					labels: ["in-progress"],
+					status: "/",
+				},
+				isNew: false,
+			});
+		});
+
+		it("should skip new lines of deleted tasks", () => {
+			const deleteFormat: TaskFormat = {
+				...defaultTaskFormat,
+				statuses: { "-": "delete" },
+			};
+
+			expect(
+				obsidianTaskParse("- [-] Call Anna", deleteFormat),
+			).toBeUndefined();
+			expect(
+				obsidianTaskParse("- [-] Call Anna %%[tid::123]%%", deleteFormat)?.task,
+			).toMatchObject({ id: "123", status: "-" });
+		});
+
+		it("should skip characters that are turned off", () => {
+			expect(
+				obsidianTaskParse("- [/] Call Anna", {
+					...defaultTaskFormat,
+					statuses: { "/": "off" },
+				}),
+			).toBeUndefined();
+		});
+	});
 });
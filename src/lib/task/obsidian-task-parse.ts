@@ -1,31 +1,135 @@
 import { generateObsidianId } from "./generate-obsidian-id.ts";
 import type { ObsidianTask } from "./obsidian-task.ts";
+import {
+	NORMAL_PRIORITY,
+	priorityFromEmoji,
+	priorityFromToken,
+	priorityToEmoji,
+} from "./priority-markers.ts";
+import { defaultTaskFormat, type TaskFormat } from "./task-format.ts";
+import { IN_PROGRESS_LABEL, statusAction } from "./task-status.ts";
 
 const TASK_STRING_REGEX =
-	/^[-*+] \[(?<checkbox>[ xX])\] (?<content>.+?)(?:\s*%%\[tid::(?<id>.+?)\]%%)?$/;
+	/^[-*+] \[(?<checkbox>[^\]])\] (?<content>.+?)(?:\s*%%\[tid::(?<id>.+?)\]%%(?:\s+\^(?<blockId>[\w-]+))?)?$/;
+
+// Tasks plugin "📅 2026-10-20" or Dataview "[due:: 2026-10-20]"
+const DUE_DATE_REGEX =
+	/\s*(?:📅\s*(?<emoji>\d{4}-\d{2}-\d{2})|\[due::\s*(?<inline>\d{4}-\d{2}-\d{2})\s*\])/u;
+
+// Tasks plugin "🔺 ⏫ 🔼 🔽 ⏬" or "!!1" to "!!4" tokens
+const PRIORITY_REGEX =
+	/\s*(?:(?<emoji>[🔺⏫🔼🔽⏬])\uFE0F?|(?<![\w!])!!(?<token>[1-4])(?!\w))/u;
+
+// Tasks plugin "🔁 every week" or Dataview "[repeat:: every week]"
+const RECURRENCE_REGEX =
+	/\s*(?:🔁\uFE0F?\s*(?<emoji>[^📅⏫🔼🔽⏬🔺✅🔁#%[\]]*[^\s📅⏫🔼🔽⏬🔺✅🔁#%[\]])|\[repeat::\s*(?<inline>[^\]]+?)\s*\])/u;
+
+// Tasks plugin "✅ 2026-10-20" or Dataview "[completion:: 2026-10-20]"
+const DONE_DATE_REGEX =
+	/\s*(?:✅\uFE0F?\s*(?<emoji>\d{4}-\d{2}-\d{2})|\[completion::\s*(?<inline>\d{4}-\d{2}-\d{2})\s*\])/u;
+
+// Marker of the checked copies kept by the "log" recurrence mode
+const COMPLETION_LOG_REGEX = /\s*%%\[log\]%%$/;
+
+// Obsidian tags need at least one non-numeric character
+const TAG_REGEX =
+	/(?:^|\s)#(?<tag>[\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*)/gu;
 
 /**
  * Parse a task string (without indent) into an ObsidianTask
  * @param taskString - Task string starting with "- [ ]", "* [ ]", "+ [ ]" or their checked variants
+ * @param format - How task metadata is read
  * @returns Object with task and isNew flag, or undefined if not a valid task string
+ * or a completion log line without id
  */
 export function obsidianTaskParse(
 	taskString: string,
+	format: TaskFormat = defaultTaskFormat,
 ): { task: ObsidianTask; isNew: boolean } | undefined {
 	const match = TASK_STRING_REGEX.exec(taskString);
 	if (!match?.groups) {
 		return undefined;
 	}
 
-	const { checkbox, content, id } = match.groups;
-	const checked = checkbox.toLowerCase() === "x";
+	const { checkbox, id, blockId } = match.groups;
+	const status = /^[ xX]$/.test(checkbox) ? undefined : checkbox;
+	const action = statusAction({ status }, format);
+	const checked = checkbox.toLowerCase() === "x" || action === "close";
 	const isNew = !id;
 
+	// Lines of deleted tasks keep their checkbox without id
+	if (action === "off" || (isNew && action === "delete")) {
+		return undefined;
+	}
+
+	if (isNew && COMPLETION_LOG_REGEX.test(match.groups.content)) {
+		return undefined;
+	}
+
+	let content = match.groups.content;
+
+	// Remove the first match of a marker from content, returning its groups
+	const extractMarker = (regex: RegExp) => {
+		const markerMatch = regex.exec(content);
+
+		if (!markerMatch) return undefined;
+
+		content = content.replace(markerMatch[0], "");
+
+		return markerMatch.groups;
+	};
+
+	const dueDateGroups = extractMarker(DUE_DATE_REGEX);
+	const priorityGroups = extractMarker(PRIORITY_REGEX);
+	const recurrenceGroups = extractMarker(RECURRENCE_REGEX);
+	const doneDateGroups = extractMarker(DONE_DATE_REGEX);
+
+	const dueDate = dueDateGroups?.emoji ?? dueDateGroups?.inline;
+	const priority = priorityGroups?.emoji
+		? priorityFromEmoji[priorityGroups.emoji]
+		: priorityGroups?.token
+			? priorityFromToken(priorityGroups.token)
+			: undefined;
+	// Kept to be written back, other emojis are what the priority is written as
+	const priorityEmoji =
+		priority && priorityGroups?.emoji !== priorityToEmoji[priority]
+			? priorityGroups?.emoji
+			: undefined;
+	const recurrence = recurrenceGroups?.emoji ?? recurrenceGroups?.inline;
+	const doneDate = doneDateGroups?.emoji ?? doneDateGroups?.inline;
+
+	const labels: string[] = [];
+
+	if (format.tagsMode === "labels") {
+		content = content.replace(TAG_REGEX, (_, tag: string) => {
+			if (!labels.includes(tag)) {
+				labels.push(tag);
+			}
+
+			return "";
+		});
+	}
+
+	if (action === "in-progress" && !labels.includes(IN_PROGRESS_LABEL)) {
+		labels.push(IN_PROGRESS_LABEL);
+	}
+
 	return {
 		task: {
 			content: content.trim(),
 			checked,
 			id: isNew ? generateObsidianId() : id,
+			...(dueDate && { dueDate }),
+			...(priority &&
+				priority !== NORMAL_PRIORITY && {
+					priority,
+				}),
+			...(priorityEmoji && { priorityEmoji }),
+			...(labels.length > 0 && { labels }),
+			...(recurrence && { recurrence }),
+			...(doneDate && { doneDate }),
+			...(blockId && { blockId }),
+			...(status && { status }),
 		},
 		isNew,
 	};
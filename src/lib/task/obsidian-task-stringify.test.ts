@@ -1,6 +1,21 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { obsidianTaskParse } from "./obsidian-task-parse.ts";
-import { obsidianTaskStringify } from "./obsidian-task-stringify.ts";
+import {
+	completionLogStringify,
+	deletedTaskStringify,
+	obsidianTaskStringify,
+} from "./obsidian-task-stringify.ts";
+import { defaultTaskFormat, type TaskFormat } from "./task-format.ts";
+
+const inlineFormat: TaskFormat = {
+	...defaultTaskFormat,
+	metadataStyle: "inline",
+};
+
+const labelsFormat: TaskFormat = {
+	...defaultTaskFormat,
+	tagsMode: "labels",
+};
 
 describe("obsidianTaskStringify", () => {
 	let mockCounter = 0;
@@ -88,6 +103,193 @@ describe("obsidianTaskStringify", () => {
 		});
 	});
 
+	describe("due dates", () => {
+		it("should stringify due date as Tasks plugin marker by default", () => {
+			expect(
+				obsidianTaskStringify({
+					content: "Buy groceries",
+					checked: false,
+					id: "6fFV2rp7xrgggxqR",
+					dueDate: "2026-10-20",
+				}),
+			).toBe("- [ ] Buy groceries 📅 2026-10-20 %%[tid::6fFV2rp7xrgggxqR]%%");
+		});
+
+		it("should stringify due date as Dataview field", () => {
+			expect(
+				obsidianTaskStringify(
+					{
+						content: "Buy groceries",
+						checked: false,
+						id: "6fFV2rp7xrgggxqR",
+						dueDate: "2026-10-20",
+					},
+					inlineFormat,
+				),
+			).toBe(
+				"- [ ] Buy groceries [due:: 2026-10-20] %%[tid::6fFV2rp7xrgggxqR]%%",
+			);
+		});
+	});
+
+	describe("priorities", () => {
+		it.each([
+			[4, "⏫"],
+			[3, "🔼"],
+			[2, "🔽"],
+		])("should stringify priority %i as %s emoji", (priority, emoji) => {
+			expect(
+				obsidianTaskStringify({
+					content: "Buy groceries",
+					checked: false,
+					id: "6fFV2rp7xrgggxqR",
+					priority,
+				}),
+			).toBe(`- [ ] Buy groceries ${emoji} %%[tid::6fFV2rp7xrgggxqR]%%`);
+		});
+
+		it.each([
+			[4, "!!1"],
+			[3, "!!2"],
+			[2, "!!3"],
+		])("should stringify priority %i as %s token", (priority, token) => {
+			expect(
+				obsidianTaskStringify(
+					{
+						content: "Buy groceries",
+						checked: false,
+						id: "6fFV2rp7xrgggxqR",
+						priority,
+					},
+					inlineFormat,
+				),
+			).toBe(`- [ ] Buy groceries ${token} %%[tid::6fFV2rp7xrgggxqR]%%`);
+		});
+
+		it("should stringify priority before due date", () => {
+			expect(
+				obsidianTaskStringify({
+					content: "Buy groceries",
+					checked: false,
+					id: "6fFV2rp7xrgggxqR",
+					dueDate: "2026-10-20",
+					priority: 4,
+				}),
+			).toBe(
+				"- [ ] Buy groceries ⏫ 📅 2026-10-20 %%[tid::6fFV2rp7xrgggxqR]%%",
+			);
+		});
+	});
+
+	describe("labels", () => {
+		it("should stringify labels as tags after content", () => {
+			expect(
+				obsidianTaskStringify({
+					content: "Buy groceries",
+					checked: false,
+					id: "6fFV2rp7xrgggxqR",
+					labels: ["errand", "home"],
+					priority: 4,
+				}),
+			).toBe(
+				"- [ ] Buy groceries #errand #home ⏫ %%[tid::6fFV2rp7xrgggxqR]%%",
+			);
+		});
+	});
+
+	describe("recurrence", () => {
+		const task = {
+			content: "Water plants",
+			checked: false,
+			id: "123",
+			dueDate: "2026-10-20",
+			recurrence: "every week",
+		};
+
+		it("should write Tasks plugin recurrence before the due date", () => {
+			expect(obsidianTaskStringify(task)).toBe(
+				"- [ ] Water plants 🔁 every week 📅 2026-10-20 %%[tid::123]%%",
+			);
+		});
+
+		it("should write inline recurrence field", () => {
+			expect(obsidianTaskStringify(task, inlineFormat)).toBe(
+				"- [ ] Water plants [repeat:: every week] [due:: 2026-10-20] %%[tid::123]%%",
+			);
+		});
+
+		it("should write the completion date of checked tasks only", () => {
+			const { recurrence: _, ...done } = { ...task, doneDate: "2026-10-19" };
+
+			expect(obsidianTaskStringify({ ...done, checked: true })).toBe(
+				"- [x] Water plants 📅 2026-10-20 ✅ 2026-10-19 %%[tid::123]%%",
+			);
+			expect(obsidianTaskStringify(done)).toBe(
+				"- [ ] Water plants 📅 2026-10-20 %%[tid::123]%%",
+			);
+		});
+
+		it("should write completion log without id and recurrence", () => {
+			expect(completionLogStringify(task, "2026-10-19")).toBe(
+				"- [x] Water plants 📅 2026-10-20 ✅ 2026-10-19 %%[log]%%",
+			);
+			expect(completionLogStringify(task, "2026-10-19", inlineFormat)).toBe(
+				"- [x] Water plants [due:: 2026-10-20] [completion:: 2026-10-19] %%[log]%%",
+			);
+		});
+	});
+
+	describe("deleted tasks", () => {
+		const task = {
+			id: "123",
+			content: "Call Anna",
+			checked: false,
+			dueDate: "2026-10-20",
+		};
+
+		it("should write a list item without checkbox and id", () => {
+			expect(deletedTaskStringify(task, false)).toBe(
+				"- Call Anna 📅 2026-10-20",
+			);
+			expect(obsidianTaskParse(deletedTaskStringify(task, false))).toBe(
+				undefined,
+			);
+		});
+
+		it("should strike the task text through", () => {
+			expect(deletedTaskStringify(task, true, inlineFormat)).toBe(
+				"- ~~Call Anna [due:: 2026-10-20]~~",
+			);
+		});
+	});
+
+	describe("descriptions", () => {
+		const task = {
+			id: "123",
+			content: "Call Anna",
+			checked: false,
+			description: "Ask about\n\nthe trip",
+		};
+
+		it("should write description lines below the task line", () => {
+			expect(obsidianTaskStringify(task, defaultTaskFormat, "> ")).toBe(
+				"- [ ] Call Anna %%[tid::123]%%\n>   Ask about\n>\n>   the trip",
+			);
+		});
+
+		it("should keep the description out of completion logs", () => {
+			expect(completionLogStringify(task, "2026-10-19")).toBe(
+				"- [x] Call Anna ✅ 2026-10-19 %%[log]%%",
+			);
+		});
+
+		it("should keep the description below a deleted task", () => {
+			expect(deletedTaskStringify(task, true, defaultTaskFormat, "\t")).toBe(
+				"- ~~Call Anna~~\n\t  Ask about\n\n\t  the trip",
+			);
+		});
+	});
+
 	describe("round-trip conversion", () => {
 		it("should maintain task state through parse->stringify cycle", () => {
 			const original = "- [ ] Buy groceries %%[tid::6fFV2rp7xrgggxqR]%%";
@@ -97,6 +299,14 @@ describe("obsidianTaskStringify", () => {
 			expect(obsidianTaskStringify(parsed.task)).toBe(original);
 		});
 
+		it("should maintain the block reference through parse->stringify cycle", () => {
+			const original = "- [ ] Buy groceries %%[tid::6fFV2rp7xrgggxqR]%% ^abc";
+			const parsed = obsidianTaskParse(original);
+			expect(parsed).not.toBeUndefined();
+			if (!parsed) return;
+			expect(obsidianTaskStringify(parsed.task)).toBe(original);
+		});
+
 		it("should maintain checked state through parse->stringify cycle", () => {
 			const original = "- [x] Buy groceries %%[tid::6fFV2rp7xrgggxqR]%%";
 			const parsed = obsidianTaskParse(original);
@@ -126,6 +336,84 @@ describe("obsidianTaskStringify", () => {
 				"- [ ] **Important** with [[Note]] and [Link](url) %%[tid::obsidian-test-uuid-0]%%",
 			);
 		});
+
+		it("should maintain due date through parse->stringify cycle", () => {
+			const original =
+				"- [ ] Buy groceries 📅 2026-10-20 %%[tid::6fFV2rp7xrgggxqR]%%";
+			const parsed = obsidianTaskParse(original);
+			expect(parsed).not.toBeUndefined();
+			if (!parsed) return;
+			expect(obsidianTaskStringify(parsed.task)).toBe(original);
+		});
+
+		it("should maintain Dataview due date through parse->stringify cycle", () => {
+			const original =
+				"- [ ] Buy groceries [due:: 2026-10-20] %%[tid::6fFV2rp7xrgggxqR]%%";
+			const parsed = obsidianTaskParse(original);
+			expect(parsed).not.toBeUndefined();
+			if (!parsed) return;
+			expect(obsidianTaskStringify(parsed.task, inlineFormat)).toBe(original);
+		});
+
+		it.each([
+			"- [ ] Buy groceries ⏫ %%[tid::6fFV2rp7xrgggxqR]%%",
+			"- [ ] Buy groceries 🔼 📅 2026-10-20 %%[tid::6fFV2rp7xrgggxqR]%%",
+			"- [x] Buy groceries 🔽 %%[tid::6fFV2rp7xrgggxqR]%%",
+		])("should maintain priority through parse->stringify cycle: %s", (original) => {
+			const parsed = obsidianTaskParse(original);
+			expect(parsed).not.toBeUndefined();
+			if (!parsed) return;
+			expect(obsidianTaskStringify(parsed.task)).toBe(original);
+		});
+
+		it.each([
+			"- [ ] Buy groceries 🔺 %%[tid::6fFV2rp7xrgggxqR]%%",
+			"- [ ] Buy groceries ⏬ %%[tid::6fFV2rp7xrgggxqR]%%",
+		])("should keep the emoji of the line through parse->stringify cycle: %s", (original) => {
+			const parsed = obsidianTaskParse(original);
+			expect(parsed).not.toBeUndefined();
+			if (!parsed) return;
+			expect(obsidianTaskStringify(parsed.task)).toBe(original);
+		});
+
+		it("should write the default emoji once the priority changes", () => {
+			expect(
+				obsidianTaskStringify({
+					content: "Buy groceries",
+					checked: false,
+					id: "6fFV2rp7xrgggxqR",
+					priority: 3,
+					priorityEmoji: "🔺",
+				}),
+			).toBe("- [ ] Buy groceries 🔼 %%[tid::6fFV2rp7xrgggxqR]%%");
+		});
+
+		it("should maintain priority token through parse->stringify cycle", () => {
+			const original =
+				"- [ ] Buy groceries !!2 [due:: 2026-10-20] %%[tid::6fFV2rp7xrgggxqR]%%";
+			const parsed = obsidianTaskParse(original);
+			expect(parsed).not.toBeUndefined();
+			if (!parsed) return;
+			expect(obsidianTaskStringify(parsed.task, inlineFormat)).toBe(original);
+		});
+
+		it("should maintain tags through parse->stringify cycle in labels mode", () => {
+			const original =
+				"- [ ] Buy groceries #errand #home 📅 2026-10-20 %%[tid::6fFV2rp7xrgggxqR]%%";
+			const parsed = obsidianTaskParse(original, labelsFormat);
+			expect(parsed).not.toBeUndefined();
+			if (!parsed) return;
+			expect(obsidianTaskStringify(parsed.task, labelsFormat)).toBe(original);
+		});
+
+		it("should keep tags in content through parse->stringify cycle", () => {
+			const original =
+				"- [ ] Buy #errand groceries %%[tid::6fFV2rp7xrgggxqR]%%";
+			const parsed = obsidianTaskParse(original);
+			expect(parsed).not.toBeUndefined();
+			if (!parsed) return;
+			expect(obsidianTaskStringify(parsed.task)).toBe(original);
+		});
 	});
 
 	describe("edge cases", () => {
@@ -139,4 +427,38 @@ describe("obsidianTaskStringify", () => {
 			).toBe("- [ ] Buy groceries %%[tid::obsidian-local-123]%%");
 		});
 	});
+
+	describe("checkbox states", () => {
+		const task = {
+			content: "Call Anna",
+			checked: true,
+			id: "123",
+			status: "-",
+		};
+
+		it("should keep the checkbox character while it matches the task", () => {
+			expect(obsidianTaskStringify(task)).toBe(
+				"- [-] Call Anna %%[tid::123]%%",
+			);
+			expect(obsidianTaskStringify({ ...task, checked: false })).toBe(
+				"- [ ] Call Anna %%[tid::123]%%",
+			);
+		});
+
+		it("should write the in-progress label as checkbox", () => {
+			const inProgress = {
+				content: "Call Anna",
+				checked: false,
+				id: "123",
+				labels: ["in-progress", "calls"],
+			};
+
+			expect(obsidianTaskStringify(inProgress, labelsFormat)).toBe(
+				"- [/] Call Anna #calls %%[tid::123]%%",
+			);
+			expect(
+				obsidianTaskStringify(inProgress, { ...labelsFormat, statuses: {} }),
+			).toBe("- [ ] Call Anna #in-progress #calls %%[tid::123]%%");
+		});
+	});
 });
@@ -1,12 +1,159 @@
 import type { ObsidianTask } from "./obsidian-task.ts";
+import {
+	NORMAL_PRIORITY,
+	priorityFromEmoji,
+	priorityToEmoji,
+	priorityToToken,
+} from "./priority-markers.ts";
+import { defaultTaskFormat, type TaskFormat } from "./task-format.ts";
+import { checkboxStringify, isStatusLabel } from "./task-status.ts";
+
+/**
+ * Format a task description as lines below a task line
+ * @param indent - Text before the task on its line
+ * @param descriptionIndent - Indentation of the lines after the line indent
+ * @returns Description lines, each starting with a line break
+ */
+function descriptionStringify(
+	description: string | undefined,
+	indent: string,
+	descriptionIndent = "  ",
+): string {
+	if (!description) {
+		return "";
+	}
+
+	return description
+		.split("\n")
+		.map((line) =>
+			line === ""
+				? `\n${indent.trimEnd()}`
+				: `\n${indent}${descriptionIndent}${line}`,
+		)
+		.join("");
+}
 
 /**
  * Format an Obsidian task into markdown task string (without indent)
  * @param task - Task data to format
+ * @param format - How task metadata is written
+ * @param indent - Text before the task on its line, repeated before the
+ * description lines
  * @returns Markdown task string starting with "- [ ]" or "- [x]"
  */
-export function obsidianTaskStringify(task: ObsidianTask): string {
-	const checkbox = task.checked ? "x" : " ";
-	const id = task.id ? ` %%[tid::${task.id}]%%` : "";
-	return `- [${checkbox}] ${task.content}${id}`;
+export function obsidianTaskStringify(
+	task: ObsidianTask,
+	format: TaskFormat = defaultTaskFormat,
+	indent = "",
+): string {
+	const checkbox = checkboxStringify(task, format);
+	const metadata: string[] = [];
+
+	for (const label of task.labels ?? []) {
+		if (!isStatusLabel(label, format)) {
+			metadata.push(`#${label}`);
+		}
+	}
+
+	if (
+		task.priorityEmoji &&
+		priorityFromEmoji[task.priorityEmoji] === (task.priority ?? NORMAL_PRIORITY)
+	) {
+		metadata.push(task.priorityEmoji);
+	} else if (task.priority) {
+		metadata.push(
+			format.metadataStyle === "inline"
+				? priorityToToken(task.priority)
+				: priorityToEmoji[task.priority],
+		);
+	}
+
+	if (task.recurrence) {
+		metadata.push(
+			format.metadataStyle === "inline"
+				? `[repeat:: ${task.recurrence}]`
+				: `🔁 ${task.recurrence}`,
+		);
+	}
+
+	if (task.dueDate) {
+		metadata.push(
+			format.metadataStyle === "inline"
+				? `[due:: ${task.dueDate}]`
+				: `📅 ${task.dueDate}`,
+		);
+	}
+
+	if (task.checked && task.doneDate) {
+		metadata.push(
+			format.metadataStyle === "inline"
+				? `[completion:: ${task.doneDate}]`
+				: `✅ ${task.doneDate}`,
+		);
+	}
+
+	const suffix = metadata.map((item) => ` ${item}`).join("");
+	const block = task.blockId ? ` ^${task.blockId}` : "";
+	const id = task.id ? ` %%[tid::${task.id}]%%${block}` : "";
+	return `- [${checkbox}] ${task.content}${suffix}${id}${descriptionStringify(task.description, indent, task.descriptionIndent)}`;
+}
+
+/**
+ * Format the checked copy of a completed recurring task. The copy has no id
+ * and ends with a log marker, so it stays in the note as plain history.
+ * @param task - Completed task
+ * @param doneDate - Completion date in YYYY-MM-DD format
+ * @param format - How task metadata is written
+ */
+export function completionLogStringify(
+	task: ObsidianTask,
+	doneDate: string,
+	format: TaskFormat = defaultTaskFormat,
+): string {
+	const { recurrence: _, description: __, status: ___, ...rest } = task;
+
+	const line = obsidianTaskStringify(
+		{ ...rest, id: "", checked: true, doneDate },
+		format,
+	);
+
+	return `${line} %%[log]%%`;
+}
+
+/**
+ * Format the line kept for a task deleted in Todoist. Without checkbox and
+ * id, the line is not synced as a task again. The description stays below it.
+ * @param task - Deleted task
+ * @param struck - Strike the task text through
+ * @param format - How task metadata is written
+ * @param indent - Text before the task on its line
+ */
+export function deletedTaskStringify(
+	task: ObsidianTask,
+	struck: boolean,
+	format: TaskFormat = defaultTaskFormat,
+	indent = "",
+): string {
+	const { description, descriptionIndent, ...rest } = task;
+	const text = obsidianTaskStringify({ ...rest, id: "" }, format).replace(
+		/^- \[.\] /,
+		"",
+	);
+
+	return `${struck ? `- ~~${text}~~` : `- ${text}`}${descriptionStringify(description, indent, descriptionIndent)}`;
+}
+
+/** Header of the collapsed callout the Todoist comments of a task are in */
+export const COMMENTS_CALLOUT = "[!todoist-comments]- Comments";
+
+/**
+ * Format a Todoist comment as a line of the comments callout. Line breaks of
+ * the comment are joined, the id tells posted comments from typed lines.
+ * @param indent - Text before the task on its line
+ */
+export function commentStringify(
+	{ id, content }: { id: string; content: string },
+	indent = "",
+): string {
+	return `${indent}  > ${content.replace(/\s*\n\s*/g, " ")} %%[cid::${id}]%%`;
 }
@@ -2,4 +2,24 @@ export interface ObsidianTask {
 	content: string;
 	checked: boolean;
 	id: string;
+	/** Due date in YYYY-MM-DD format */
+	dueDate?: string;
+	/** Todoist priority from 2 (p3) to 4 (p1), undefined for normal priority */
+	priority?: number;
+	/** Priority emoji of the line that differs from the written one, 🔺 or ⏬ */
+	priorityEmoji?: string;
+	/** Todoist labels, written as #tags when tags are synced as labels */
+	labels?: string[];
+	/** Todoist recurrence without the start date, e.g. "every week" */
+	recurrence?: string;
+	/** Todoist description, written as indented lines below the task line */
+	description?: string;
+	/** Indentation of the description lines after the line indent, two spaces by default */
+	descriptionIndent?: string;
+	/** Completion date in YYYY-MM-DD format, written while the task is checked */
+	doneDate?: string;
+	/** Block reference of the line, what back-links from Todoist point at */
+	blockId?: string;
+	/** Checkbox character other than space and x, e.g. "-" of `- [-]` */
+	status?: string;
 }
@@ -0,0 +1,32 @@
+/**
+ * Todoist priorities go from 1 (p4, normal) to 4 (p1, urgent).
+ * Normal priority is not written into the task line.
+ */
+export const NORMAL_PRIORITY = 1;
+
+export const priorityFromEmoji: Record<string, number> = {
+	"🔺": 4,
+	"⏫": 4,
+	"🔼": 3,
+	"🔽": 2,
+	"⏬": 1,
+};
+
+export const priorityToEmoji: Record<number, string> = {
+	4: "⏫",
+	3: "🔼",
+	2: "🔽",
+};
+
+/**
+ * Convert a "!!1"-style token into Todoist priority
+ * @param token - Digit from 1 (urgent) to 4 (normal)
+ */
+export const priorityFromToken = (token: string): number => 5 - Number(token);
+
+/**
+ * Convert Todoist priority into a "!!1"-style token
+ * @param priority - Todoist priority from 1 to 4
+ */
+export const priorityToToken = (priority: number): string =>
+	`!!${5 - priority}`;
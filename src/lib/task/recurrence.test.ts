@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import {
+	formatLocalDate,
+	recurrenceDueString,
+	recurrenceFromDueString,
+} from "./recurrence.ts";
+
+describe("recurrenceDueString", () => {
+	it("should start recurrence at the due date", () => {
+		expect(recurrenceDueString("every week", "2026-10-20")).toBe(
+			"every week starting 2026-10-20",
+		);
+	});
+
+	it("should keep recurrence without due date", () => {
+		expect(recurrenceDueString("every week", null)).toBe("every week");
+	});
+});
+
+describe("recurrenceFromDueString", () => {
+	it("should drop the start date", () => {
+		expect(recurrenceFromDueString("every week starting 2026-10-20")).toBe(
+			"every week",
+		);
+		expect(recurrenceFromDueString("every monday")).toBe("every monday");
+	});
+});
+
+describe("formatLocalDate", () => {
+	it("should pad month and day", () => {
+		expect(formatLocalDate(new Date(2026, 0, 5))).toBe("2026-01-05");
+	});
+});
@@ -0,0 +1,41 @@
+const STARTING_REGEX = /\s+starting\s+.*$/i;
+
+/**
+ * Todoist due string of a recurring task, e.g. "every week starting 2026-10-20"
+ * @param recurrence - Recurrence without a start, e.g. "every week"
+ * @param dueDate - Next due date in YYYY-MM-DD format
+ */
+export function recurrenceDueString(
+	recurrence: string,
+	dueDate?: string | null,
+): string {
+	return dueDate ? `${recurrence} starting ${dueDate}` : recurrence;
+}
+
+/**
+ * Recurrence part of a Todoist due string, without the start date
+ * @param dueString - Due string of a recurring Todoist task
+ */
+export function recurrenceFromDueString(dueString: string): string {
+	return dueString.replace(STARTING_REGEX, "").trim();
+}
+
+/**
+ * Date some days after a date, both in YYYY-MM-DD format
+ */
+export function addDays(date: string, days: number): string {
+	const [year, month, day] = date.split("-").map(Number);
+
+	return formatLocalDate(new Date(year, month - 1, day + days));
+}
+
+/**
+ * Format a date as YYYY-MM-DD in local time
+ */
+export function formatLocalDate(date: Date): string {
+	return [
+		date.getFullYear(),
+		String(date.getMonth() + 1).padStart(2, "0"),
+		String(date.getDate()).padStart(2, "0"),
+	].join("-");
+}
@@ -0,0 +1,8 @@
+export interface TaskComment {
+	id: string;
+	content: string;
+	/** Time the comment was posted, ISO 8601 */
+	postedAt: string;
+	/** Temporary id of a comment posted from a note, its line may still carry it */
+	tempId?: string;
+}
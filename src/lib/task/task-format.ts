@@ -0,0 +1,86 @@
+/**
+ * How task metadata is written into a task line
+ * - emoji: Tasks plugin markers, e.g. "📅 2026-10-20"
+ * - inline: Dataview inline fields, e.g. "[due:: 2026-10-20]"
+ */
+export type MetadataStyle = "emoji" | "inline";
+
+/**
+ * What happens to inline #tags of a task line
+ * - content: tags stay in the task content as plain text
+ * - labels: tags are removed from the content and synced as Todoist labels
+ */
+export type TagsMode = "content" | "labels";
+
+/**
+ * Which Todoist section tasks of a note go to
+ * - note: the section set in the note frontmatter, if any
+ * - headings: the section named after the nearest heading above the task
+ */
+export type SectionMode = "note" | "headings";
+
+/**
+ * What happens when a recurring task is checked
+ * - advance: the line is unchecked and moved to the next due date
+ * - log: a checked copy without id is kept above the advanced line
+ */
+export type RecurrenceMode = "advance" | "log";
+
+/**
+ * What happens to the line of a task deleted in Todoist
+ * - delete: the line is removed
+ * - strike: the line is kept as struck through text
+ * - plain: the line is kept as a list item without checkbox
+ * - section: the line is moved under a "Deleted in Todoist" heading
+ */
+export type DeletedMode = "delete" | "strike" | "plain" | "section";
+
+/**
+ * Whether Todoist comments of a task are synced
+ * - off: comments stay in Todoist
+ * - callout: comments are written in a "todoist-comments" callout under the
+ *   task line, new lines in the callout are posted as comments
+ */
+export type CommentsMode = "off" | "callout";
+
+/**
+ * What a checkbox character other than space and x means in Todoist
+ * - off: the line is not synced
+ * - close: the task is closed, like a checked line
+ * - delete: the task is deleted and the line kept without id
+ * - tomorrow: the task is rescheduled to tomorrow and the line unchecked
+ * - in-progress: the task gets the "in-progress" label
+ */
+export type StatusAction =
+	| "off"
+	| "close"
+	| "delete"
+	| "tomorrow"
+	| "in-progress";
+
+/** Actions by checkbox character, e.g. "-" for `- [-]` */
+export type StatusMap = Readonly<Record<string, StatusAction>>;
+
+export interface TaskFormat {
+	metadataStyle: MetadataStyle;
+	tagsMode: TagsMode;
+	sectionMode: SectionMode;
+	recurrenceMode: RecurrenceMode;
+	deletedMode: DeletedMode;
+	commentsMode: CommentsMode;
+	statuses: StatusMap;
+}
+
+export const defaultTaskFormat: TaskFormat = {
+	metadataStyle: "emoji",
+	tagsMode: "content",
+	sectionMode: "note",
+	recurrenceMode: "advance",
+	deletedMode: "delete",
+	commentsMode: "off",
+	statuses: {
+		"/": "in-progress",
+		"-": "close",
+		">": "tomorrow",
+	},
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import type { ObsidianTask } from "./obsidian-task.ts";
+import { changedFields, mergeTasks } from "./task-merge.ts";
+
+const base: ObsidianTask = {
+	id: "123",
+	content: "Water plants",
+	checked: false,
+	dueDate: "2026-10-20",
+	labels: ["home"],
+};
+
+describe("changedFields", () => {
+	it("should list changed fields", () => {
+		expect(
+			changedFields(base, { ...base, content: "Water", priority: 4 }),
+		).toEqual(["content", "priority"]);
+	});
+
+	it("should ignore labels order", () => {
+		expect(
+			changedFields(
+				{ ...base, labels: ["a", "b"] },
+				{ ...base, labels: ["b", "a"] },
+			),
+		).toEqual([]);
+	});
+});
+
+describe("mergeTasks", () => {
+	it("should take changes from both sides", () => {
+		expect(
+			mergeTasks(
+				base,
+				{ ...base, content: "Water all plants" },
+				{ ...base, priority: 4 },
+			),
+		).toEqual({
+			task: { ...base, content: "Water all plants", priority: 4 },
+			conflicts: [],
+		});
+	});
+
+	it("should apply removed remote fields", () => {
+		const { dueDate: _, ...remote } = base;
+
+		expect(mergeTasks(base, { ...base, checked: true }, remote)).toEqual({
+			task: { ...remote, checked: true },
+			conflicts: [],
+		});
+	});
+
+	it("should not conflict on equal changes", () => {
+		const changed = { ...base, content: "Water" };
+
+		expect(mergeTasks(base, changed, changed)).toEqual({
+			task: changed,
+			conflicts: [],
+		});
+	});
+
+	it("should report fields changed differently on both sides", () => {
+		expect(
+			mergeTasks(
+				base,
+				{ ...base, content: "Local", dueDate: "2026-10-21" },
+				{ ...base, content: "Remote", checked: true },
+			),
+		).toEqual({
+			task: {
+				...base,
+				content: "Local",
+				dueDate: "2026-10-21",
+				checked: true,
+			},
+			conflicts: ["content"],
+		});
+	});
+});
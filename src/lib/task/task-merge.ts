@@ -0,0 +1,65 @@
+import type { ObsidianTask } from "./obsidian-task.ts";
+import { labelsEquals } from "./tasks-equals.ts";
+
+const TASK_FIELDS = [
+	"content",
+	"checked",
+	"dueDate",
+	"priority",
+	"labels",
+	"recurrence",
+	"description",
+] as const;
+
+export type TaskField = (typeof TASK_FIELDS)[number];
+
+const fieldEquals = (
+	field: TaskField,
+	a: ObsidianTask,
+	b: ObsidianTask,
+): boolean =>
+	field === "labels" ? labelsEquals(a.labels, b.labels) : a[field] === b[field];
+
+/**
+ * List synced fields that differ between two versions of a task
+ */
+export function changedFields(a: ObsidianTask, b: ObsidianTask): TaskField[] {
+	return TASK_FIELDS.filter((field) => !fieldEquals(field, a, b));
+}
+
+/**
+ * Three-way merge of a task edited on both sides since the last sync.
+ * Fields changed on one side take that side, fields changed on both sides
+ * to different values are conflicts and keep the local value.
+ * @param base - Task state at the last sync
+ * @param local - Task in the note
+ * @param remote - Task in Todoist
+ * @returns Merged task and conflicting fields
+ */
+export function mergeTasks(
+	base: ObsidianTask,
+	local: ObsidianTask,
+	remote: ObsidianTask,
+): { task: ObsidianTask; conflicts: TaskField[] } {
+	const task: ObsidianTask = { ...local };
+	const conflicts: TaskField[] = [];
+
+	for (const field of TASK_FIELDS) {
+		const localChanged = !fieldEquals(field, base, local);
+		const remoteChanged = !fieldEquals(field, base, remote);
+
+		if (localChanged && remoteChanged) {
+			if (!fieldEquals(field, local, remote)) {
+				conflicts.push(field);
+			}
+		} else if (remoteChanged) {
+			Object.assign(task, { [field]: remote[field] });
+
+			if (task[field] === undefined) {
+				delete task[field];
+			}
+		}
+	}
+
+	return { task, conflicts };
+}
@@ -0,0 +1,55 @@
+import type { ObsidianTask } from "./obsidian-task.ts";
+import type { StatusAction, TaskFormat } from "./task-format.ts";
+
+/** Todoist label of tasks whose line has an in-progress checkbox */
+export const IN_PROGRESS_LABEL = "in-progress";
+
+/**
+ * Action of the checkbox character of a task line, undefined for space and x
+ */
+export const statusAction = (
+	{ status }: Pick<ObsidianTask, "status">,
+	{ statuses }: TaskFormat,
+): StatusAction | undefined =>
+	status ? (statuses[status] ?? "off") : undefined;
+
+/**
+ * Checkbox character written for tasks in progress, if any
+ */
+export const inProgressStatus = ({
+	statuses,
+}: TaskFormat): string | undefined =>
+	Object.keys(statuses).find((status) => statuses[status] === "in-progress");
+
+/**
+ * Whether a Todoist label is written as a checkbox character
+ */
+export const isStatusLabel = (label: string, format: TaskFormat): boolean =>
+	label === IN_PROGRESS_LABEL && inProgressStatus(format) !== undefined;
+
+/**
+ * Checkbox character of a task line. A character read from the note is kept
+ * while it still matches the task, Todoist changes fall back to the default.
+ */
+export function checkboxStringify(
+	task: ObsidianTask,
+	format: TaskFormat,
+): string {
+	const action = statusAction(task, format);
+	const inProgress = task.labels?.includes(IN_PROGRESS_LABEL) ?? false;
+
+	if (task.checked) {
+		return action === "close" && task.status ? task.status : "x";
+	}
+
+	if (
+		task.status &&
+		(action === "delete" ||
+			action === "tomorrow" ||
+			(action === "in-progress" && inProgress))
+	) {
+		return task.status;
+	}
+
+	return (inProgress && inProgressStatus(format)) || " ";
+}
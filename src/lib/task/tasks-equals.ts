@@ -1,4 +1,14 @@
 import type { ObsidianTask } from "./obsidian-task.ts";
 
+export const labelsEquals = (a: string[] = [], b: string[] = []): boolean =>
+	a.length === b.length && a.every((label) => b.includes(label));
+
 export const tasksEquals = (a: ObsidianTask, b: ObsidianTask): boolean =>
-	a.id === b.id && a.checked === b.checked && a.content === b.content;
+	a.id === b.id &&
+	a.checked === b.checked &&
+	a.content === b.content &&
+	a.dueDate === b.dueDate &&
+	a.priority === b.priority &&
+	a.recurrence === b.recurrence &&
+	a.description === b.description &&
+	labelsEquals(a.labels, b.labels);
@@ -0,0 +1,39 @@
+import type { Task } from "@doist/todoist-api-typescript";
+import type { ObsidianTask } from "./obsidian-task.ts";
+import { NORMAL_PRIORITY } from "./priority-markers.ts";
+import { recurrenceFromDueString } from "./recurrence.ts";
+
+function isTodoistTask(task: Task | ObsidianTask): task is Task {
+	return "projectId" in task;
+}
+
+/**
+ * Convert a Todoist task into an ObsidianTask
+ * @param task - Task returned by Todoist API, or already converted task
+ * @returns ObsidianTask with only the fields synced with Obsidian
+ */
+export function todoistTaskToObsidianTask(
+	task: Task | ObsidianTask,
+): ObsidianTask {
+	if (!isTodoistTask(task)) {
+		return task;
+	}
+
+	const { id, content, checked, due, priority, labels, description } = task;
+	// Blank lines around the text do not survive a round trip through the note
+	const descriptionText = description.replace(/^(?:[ \t]*\n)+|\s+$/g, "");
+
+	return {
+		id,
+		content,
+		checked,
+		// Todoist keeps the time in the date for tasks with a due time
+		...(due && { dueDate: due.date.slice(0, 10) }),
+		...(priority !== NORMAL_PRIORITY && { priority }),
+		...(labels.length > 0 && { labels }),
+		...(due?.isRecurring && {
+			recurrence: recurrenceFromDueString(due.string),
+		}),
+		...(descriptionText && { description: descriptionText }),
+	};
+}
@@ -0,0 +1,82 @@
+import type { Task } from "@doist/todoist-api-typescript";
+import { describe, expect, it } from "vitest";
+import { defaultTaskFormat } from "./task-format.ts";
+import { todoistTasksToLines } from "./todoist-tasks-to-lines.ts";
+
+const todoistTask = (task: Partial<Task> & { id: string }): Task =>
+	({
+		projectId: "p1",
+		content: `Task ${task.id}`,
+		checked: false,
+		due: null,
+		priority: 1,
+		labels: [],
+		parentId: null,
+		childOrder: 1,
+		description: "",
+		...task,
+	}) as Task;
+
+describe("todoistTasksToLines", () => {
+	it("should format tasks with their ids", () => {
+		expect(
+			todoistTasksToLines([
+				todoistTask({
+					id: "1",
+					priority: 4,
+					due: { date: "2026-10-20" } as Task["due"],
+				}),
+			]),
+		).toEqual(["- [ ] Task 1 ⏫ 📅 2026-10-20 %%[tid::1]%%"]);
+	});
+
+	it("should keep Todoist order of siblings", () => {
+		expect(
+			todoistTasksToLines([
+				todoistTask({ id: "1", childOrder: 2 }),
+				todoistTask({ id: "2", childOrder: 1 }),
+			]),
+		).toEqual(["- [ ] Task 2 %%[tid::2]%%", "- [ ] Task 1 %%[tid::1]%%"]);
+	});
+
+	it("should indent sub-tasks under their parent", () => {
+		expect(
+			todoistTasksToLines([
+				todoistTask({ id: "3", parentId: "2" }),
+				todoistTask({ id: "2", parentId: "1" }),
+				todoistTask({ id: "1" }),
+			]),
+		).toEqual([
+			"- [ ] Task 1 %%[tid::1]%%",
+			"\t- [ ] Task 2 %%[tid::2]%%",
+			"\t\t- [ ] Task 3 %%[tid::3]%%",
+		]);
+	});
+
+	it("should keep sub-tasks without imported parent at top level", () => {
+		expect(
+			todoistTasksToLines([todoistTask({ id: "2", parentId: "1" })]),
+		).toEqual(["- [ ] Task 2 %%[tid::2]%%"]);
+	});
+
+	it("should write descriptions below their task line", () => {
+		expect(
+			todoistTasksToLines([
+				todoistTask({ id: "1" }),
+				todoistTask({ id: "2", parentId: "1", description: "Two\nlines\n" }),
+			]),
+		).toEqual([
+			"- [ ] Task 1 %%[tid::1]%%",
+			"\t- [ ] Task 2 %%[tid::2]%%\n\t  Two\n\t  lines",
+		]);
+	});
+
+	it("should write labels only in the labels tags mode", () => {
+		const tasks = [todoistTask({ id: "1", labels: ["work"] })];
+
+		expect(todoistTasksToLines(tasks)).toEqual(["- [ ] Task 1 %%[tid::1]%%"]);
+		expect(
+			todoistTasksToLines(tasks, { ...defaultTaskFormat, tagsMode: "labels" }),
+		).toEqual(["- [ ] Task 1 #work %%[tid::1]%%"]);
+	});
+});
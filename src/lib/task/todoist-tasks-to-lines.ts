@@ -0,0 +1,48 @@
+import type { Task } from "@doist/todoist-api-typescript";
+import { obsidianTaskStringify } from "./obsidian-task-stringify.ts";
+import { defaultTaskFormat, type TaskFormat } from "./task-format.ts";
+import { todoistTaskToObsidianTask } from "./todoist-task-to-obsidian-task.ts";
+
+/**
+ * Format Todoist tasks as markdown task lines. Sub-tasks are indented under
+ * their parent when it is in the list, siblings keep the Todoist order.
+ * @param tasks - Tasks returned by Todoist API
+ * @param format - How task metadata is written
+ * @returns Task lines with their todoister ids
+ */
+export function todoistTasksToLines(
+	tasks: Task[],
+	format: TaskFormat = defaultTaskFormat,
+): string[] {
+	const ids = new Set(tasks.map(({ id }) => id));
+	const children = new Map<string | undefined, Task[]>();
+
+	for (const task of tasks) {
+		const parentId =
+			task.parentId && ids.has(task.parentId) ? task.parentId : undefined;
+
+		children.set(parentId, [...(children.get(parentId) ?? []), task]);
+	}
+
+	const lines: string[] = [];
+	const addLines = (parentId: string | undefined, depth: number) => {
+		const siblings = [...(children.get(parentId) ?? [])].sort(
+			(a, b) => a.childOrder - b.childOrder,
+		);
+
+		for (const task of siblings) {
+			const { labels, ...rest } = todoistTaskToObsidianTask(task);
+			const obsidianTask =
+				format.tagsMode === "labels" && labels ? { ...rest, labels } : rest;
+
+			const indent = "\t".repeat(depth);
+
+			lines.push(indent + obsidianTaskStringify(obsidianTask, format, indent));
+			addLines(task.id, depth + 1);
+		}
+	};
+
+	addLines(undefined, 0);
+
+	return lines;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { applyTextEdits, editedLine, replaceAllEdits } from "./text-edit.ts";
+
+describe("applyTextEdits", () => {
+	it("should return content unchanged without edits", () => {
+		expect(applyTextEdits("- [ ] Task", [])).toBe("- [ ] Task");
+	});
+
+	it("should replace a range within a line", () => {
+		expect(
+			applyTextEdits("Text\n- [ ] Task", [
+				{
+					text: "- [x] Task",
+					from: { line: 1, ch: 0 },
+					to: { line: 1, ch: 10 },
+				},
+			]),
+		).toBe("Text\n- [x] Task");
+	});
+
+	it("should apply multiple edits relative to the original content", () => {
+		expect(
+			applyTextEdits("a\nb\nc", [
+				{ text: "first", from: { line: 0, ch: 0 }, to: { line: 0, ch: 1 } },
+				{ text: "third", from: { line: 2, ch: 0 }, to: { line: 2, ch: 1 } },
+			]),
+		).toBe("first\nb\nthird");
+	});
+
+	it("should remove whole lines", () => {
+		expect(
+			applyTextEdits("a\nb\nc", [
+				{ text: "", from: { line: 1, ch: 0 }, to: { line: 2, ch: 0 } },
+			]),
+		).toBe("a\nc");
+	});
+
+	it("should clamp positions after the last line to the end of content", () => {
+		expect(
+			applyTextEdits("a\nb", [
+				{ text: "", from: { line: 1, ch: 0 }, to: { line: 2, ch: 0 } },
+			]),
+		).toBe("a\n");
+	});
+});
+
+describe("replaceAllEdits", () => {
+	it("should find every occurrence across lines", () => {
+		const content =
+			"- [ ] A %%[tid::obsidian-1]%%\n- [ ] B %%[tid::obsidian-1]%%";
+
+		expect(replaceAllEdits(content, "obsidian-1", "123")).toEqual([
+			{ text: "123", from: { line: 0, ch: 16 }, to: { line: 0, ch: 26 } },
+			{ text: "123", from: { line: 1, ch: 16 }, to: { line: 1, ch: 26 } },
+		]);
+	});
+
+	it("should produce edits that replace all occurrences", () => {
+		const content = "x obsidian-1 obsidian-1";
+
+		expect(
+			applyTextEdits(content, replaceAllEdits(content, "obsidian-1", "1")),
+		).toBe("x 1 1");
+	});
+
+	it("should return no edits when nothing matches", () => {
+		expect(replaceAllEdits("- [ ] Task", "obsidian-1", "1")).toEqual([]);
+	});
+});
+
+describe("editedLine", () => {
+	it("should count lines added and removed above the line", () => {
+		const edits = [
+			{ text: "", from: { line: 0, ch: 0 }, to: { line: 1, ch: 0 } },
+			{ text: "A\nB\n", from: { line: 2, ch: 0 }, to: { line: 2, ch: 0 } },
+			{ text: "", from: { line: 5, ch: 0 }, to: { line: 6, ch: 0 } },
+		];
+
+		expect(editedLine(4, edits)).toBe(5);
+	});
+
+	it("should ignore edits of the line itself", () => {
+		expect(
+			editedLine(1, [
+				{ text: "", from: { line: 1, ch: 0 }, to: { line: 2, ch: 0 } },
+			]),
+		).toBe(1);
+	});
+});
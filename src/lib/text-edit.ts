@@ -0,0 +1,82 @@
+import type { EditorPosition } from "obsidian";
+
+export interface TextEdit {
+	text: string;
+	from: EditorPosition;
+	to: EditorPosition;
+}
+
+/**
+ * Apply a list of edits to a text. Positions refer to the original text,
+ * so edits are applied from the end of the document to its start.
+ * @param content - Original text
+ * @param edits - Non-overlapping edits
+ * @returns Text with all edits applied
+ */
+export function applyTextEdits(content: string, edits: TextEdit[]): string {
+	const lineOffsets = [0];
+
+	for (let offset = 0; offset < content.length; offset++) {
+		if (content[offset] === "\n") {
+			lineOffsets.push(offset + 1);
+		}
+	}
+
+	const toOffset = ({ line, ch }: EditorPosition) =>
+		line < lineOffsets.length ? lineOffsets[line] + ch : content.length;
+
+	return [...edits]
+		.sort((a, b) => b.from.line - a.from.line || b.from.ch - a.from.ch)
+		.reduce(
+			(result, { text, from, to }) =>
+				result.slice(0, toOffset(from)) + text + result.slice(toOffset(to)),
+			content,
+		);
+}
+
+/**
+ * Number of a line once edits are applied, counting lines added and removed
+ * by edits that end before the line starts
+ * @param line - Line number in the original text
+ * @param edits - Non-overlapping edits
+ */
+export function editedLine(line: number, edits: TextEdit[]): number {
+	return edits
+		.filter(({ to }) => to.line < line || (to.line === line && to.ch === 0))
+		.reduce(
+			(result, { text, from, to }) =>
+				result + text.split("\n").length - 1 - (to.line - from.line),
+			line,
+		);
+}
+
+/**
+ * Build edits replacing every occurrence of a string in a text
+ * @param content - Text to search in
+ * @param search - String to replace
+ * @param replacement - Replacement string
+ */
+export function replaceAllEdits(
+	content: string,
+	search: string,
+	replacement: string,
+): TextEdit[] {
+	const edits: TextEdit[] = [];
+	const lines = content.split("\n");
+
+	for (let line = 0; line < lines.length; line++) {
+		let ch = lines[line].indexOf(search);
+
+		while (ch !== -1) {
+			edits.push({
+				text: replacement,
+				from: { line, ch },
+				to: { line, ch: ch + search.length },
+			});
+
+			ch = lines[line].indexOf(search, ch + search.length);
+		}
+	}
+
+	return edits;
+}
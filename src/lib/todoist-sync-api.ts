@@ -0,0 +1,165 @@
+import {
+	type CustomFetch,
+	type Task,
+	TodoistApi,
+	TodoistRequestError,
+} from "@doist/todoist-api-typescript";
+
+const SYNC_URL = "https://api.todoist.com/api/v1/sync";
+
+/**
+ * Sync API command, args use the API's snake_case field names
+ */
+export interface SyncCommand {
+	type: string;
+	uuid: string;
+	args: Record<string, unknown>;
+	/** Id the created object is referred to by in the same request */
+	tempId?: string;
+}
+
+export type SyncCommandStatus =
+	| "ok"
+	| { error: string; httpCode: number; errorExtra?: Record<string, unknown> };
+
+/**
+ * Task comment as read by the Sync API
+ */
+export interface SyncNote {
+	id: string;
+	/** Id of the commented task */
+	itemId: string;
+	content: string;
+	postedAt: string;
+	isDeleted: boolean;
+}
+
+export interface SyncResult {
+	syncToken: string;
+	fullSync: boolean;
+	/** Items changed since the sync token */
+	items: Task[];
+	/** Task comments changed since the sync token */
+	notes: SyncNote[];
+	/** Command results by command uuid */
+	syncStatus: Record<string, SyncCommandStatus>;
+	/** Created item ids by temporary id */
+	tempIdMapping: Record<string, string>;
+}
+
+const camelCase = (key: string) =>
+	key.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+/**
+ * Convert object keys of an API response from snake_case to camelCase
+ */
+export function camelCaseKeys(value: unknown): unknown {
+	if (Array.isArray(value)) {
+		return value.map(camelCaseKeys);
+	}
+
+	if (value && typeof value === "object") {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [
+				camelCase(key),
+				camelCaseKeys(item),
+			]),
+		);
+	}
+
+	return value;
+}
+
+interface RawSyncResponse {
+	sync_token: string;
+	full_sync: boolean;
+	items?: unknown[];
+	notes?: unknown[];
+	sync_status?: Record<string, "ok" | Record<string, unknown>>;
+	temp_id_mapping?: Record<string, string>;
+}
+
+/**
+ * Todoist client with access to the Sync API, which reads all changes since
+ * a sync token and writes a batch of commands in one request
+ */
+export class TodoistSyncApi extends TodoistApi {
+	#authToken: string;
+	#customFetch: CustomFetch;
+
+	constructor(
+		authToken: string,
+		{ customFetch }: { customFetch: CustomFetch },
+	) {
+		super(authToken, { customFetch });
+		this.#authToken = authToken;
+		this.#customFetch = customFetch;
+	}
+
+	/**
+	 * @param syncToken - Token of the previous sync, "*" reads everything
+	 * @param resourceTypes - Resources to read changes of
+	 * @param commands - Commands to run before reading changes
+	 */
+	async sync({
+		syncToken,
+		resourceTypes,
+		commands = [],
+	}: {
+		syncToken: string;
+		resourceTypes: string[];
+		commands?: SyncCommand[];
+	}): Promise<SyncResult> {
+		const body = new URLSearchParams({
+			sync_token: syncToken,
+			resource_types: JSON.stringify(resourceTypes),
+		});
+
+		if (commands.length > 0) {
+			body.set(
+				"commands",
+				JSON.stringify(
+					commands.map(({ type, uuid, args, tempId }) => ({
+						type,
+						uuid,
+						args,
+						...(tempId && { temp_id: tempId }),
+					})),
+				),
+			);
+		}
+
+		const response = await this.#customFetch(SYNC_URL, {
+			method: "POST",
+			headers: {
+				Authorization: `Bearer ${this.#authToken}`,
+				"Content-Type": "application/x-www-form-urlencoded",
+			},
+			body: body.toString(),
+		});
+
+		if (!response.ok) {
+			throw new TodoistRequestError(
+				`Sync request failed with status ${response.status}`,
+				response.status,
+				await response.json(),
+			);
+		}
+
+		const data = (await response.json()) as RawSyncResponse;
+
+		return {
+			syncToken: data.sync_token,
+			fullSync: data.full_sync,
+			items: (data.items ?? []).map((item) => camelCaseKeys(item) as Task),
+			notes: (data.notes ?? []).map((note) => camelCaseKeys(note) as SyncNote),
+			syncStatus: Object.fromEntries(
+				Object.entries(data.sync_status ?? {}).map(([uuid, status]) => [
+					uuid,
+					camelCaseKeys(status) as SyncCommandStatus,
+				]),
+			),
+			tempIdMapping: data.temp_id_mapping ?? {},
+		};
+	}
+}
@@ -8,7 +8,7 @@ import {
 } from "@codemirror/view";
 
 const decorator = new MatchDecorator({
-	regexp: /%%\[tid::[^\]]+\]%%/g,
+	regexp: /%%\[(?:tid::[^\]]+|log)\]%%(?: \^[\w-]+)?/g,
 	decoration: Decoration.mark({ class: "todoister-id" }),
 });
 
@@ -1,81 +1,103 @@
-import { type CurrentUser, TodoistApi } from "@doist/todoist-api-typescript";
-import type {
-	MutationObserver,
-	QueryClient,
-	QueryObserver,
-	QueryObserverResult,
+import type { CurrentUser } from "@doist/todoist-api-typescript";
+import {
+	onlineManager,
+	type QueryClient,
+	type QueryObserver,
 } from "@tanstack/query-core";
 import type { Persister } from "@tanstack/query-persist-client-core";
 import {
 	type Editor,
-	type EditorPosition,
+	type MarkdownFileInfo,
+	type MarkdownView,
 	Notice,
 	Plugin,
-	type TFile,
+	type TAbstractFile,
+	TFile,
 } from "obsidian";
+import {
+	BACKLINK_ACTION,
+	type BacklinkMode,
+	backlinkComment,
+} from "./lib/backlink.ts";
+import { ConflictModal } from "./lib/conflict-modal.ts";
+import { showDeletedNotice } from "./lib/deleted-notice.ts";
+import { DuplicateModal } from "./lib/duplicate-modal.ts";
+import { FileSync } from "./lib/file-sync.ts";
+import { FilterBlock } from "./lib/filter-block.ts";
+import { ImportModal } from "./lib/import-modal.ts";
+import { importTaskLines, setImportedBaselines } from "./lib/import-tasks.ts";
 import { obsidianFetchAdapter } from "./lib/obsidian-fetch-adapter.ts";
-import { type ParseResults, parseContent } from "./lib/parse-content.ts";
 import { createQueryClient } from "./lib/query/create-query-client.ts";
-import { mutationAddTask } from "./lib/query/mutation-add-task.ts";
-import { mutationSetCheckedTask } from "./lib/query/mutation-set-checked-task.ts";
-import { mutationUpdateTask } from "./lib/query/mutation-update-task.ts";
-import { queryProjectList } from "./lib/query/query-project-list.ts";
-import { queryTask } from "./lib/query/query-task.ts";
+import type { TaskSource } from "./lib/query/fetch-tasks.ts";
+import {
+	fetchProjectList,
+	queryProjectList,
+} from "./lib/query/query-project-list.ts";
 import { queryUserInfo } from "./lib/query/query-user-info.ts";
+import { RemovalModal } from "./lib/removal-modal.ts";
+import { type RemovedMode, RemovedTasks } from "./lib/removed-tasks.ts";
+import { RequestScheduler } from "./lib/request-scheduler.ts";
 import { TodoisterSettingTab } from "./lib/settings-tab.ts";
+import {
+	editorDocument,
+	type SyncDocument,
+	vaultDocument,
+} from "./lib/sync-document.ts";
 import { SyncIndicator } from "./lib/sync-indicator.ts";
-import { isObsidianId } from "./lib/task/is-obsidian-id.ts";
-import type { ObsidianTask } from "./lib/task/obsidian-task.ts";
-import { obsidianTaskStringify } from "./lib/task/obsidian-task-stringify.ts";
-import { tasksEquals } from "./lib/task/tasks-equals.ts";
+import type {
+	ContentOptions,
+	WikilinkMode,
+} from "./lib/task/content-markdown.ts";
+import {
+	type CommentsMode,
+	type DeletedMode,
+	defaultTaskFormat,
+	type MetadataStyle,
+	type RecurrenceMode,
+	type SectionMode,
+	type StatusMap,
+	type TagsMode,
+	type TaskFormat,
+} from "./lib/task/task-format.ts";
+import {
+	hasProjectOverride,
+	PROJECT_FRONTMATTER_KEY,
+	resolveTaskTarget,
+	type TaskTarget,
+} from "./lib/task-target.ts";
+import { TodoistSyncApi } from "./lib/todoist-sync-api.ts";
 import { todoisterIdPlugin } from "./lib/todoister-id-plugin.ts";
 
+const BACKGROUND_SYNC_INTERVAL = 1000 * 60 * 5;
+
 interface PluginData {
 	oauthAccessToken?: string;
 	todoistProjectId?: string;
+	metadataStyle?: MetadataStyle;
+	tagsMode?: TagsMode;
+	sectionMode?: SectionMode;
+	recurrenceMode?: RecurrenceMode;
+	deletedMode?: DeletedMode;
+	commentsMode?: CommentsMode;
+	removedMode?: RemovedMode;
+	wikilinkMode?: WikilinkMode;
+	backlinkMode?: BacklinkMode;
+	statuses?: StatusMap;
 	queryCache?: string;
 }
 
-interface ActiveFileCacheItemTodoist {
-	updatedAt?: number;
-	query: Pick<
-		QueryObserver<ObsidianTask | { deleted: true; id: string }>,
-		"subscribe" | "destroy" | "getCurrentResult"
-	>;
-	updateContent: Pick<
-		MutationObserver<unknown, Error, { content: string }>,
-		"mutate"
-	>;
-	toggleCheck: Pick<
-		MutationObserver<unknown, Error, { checked: boolean }>,
-		"mutate"
-	>;
-}
-
-interface ActiveFileCacheItemObsidian {
-	updatedAt?: number;
-	add: Pick<MutationObserver<unknown, Error, { content: string }>, "mutate">;
-}
-
-type ActiveFileCacheItem =
-	| ActiveFileCacheItemTodoist
-	| ActiveFileCacheItemObsidian;
-
-function isObsidianCacheItem(
-	item: ActiveFileCacheItem,
-): item is ActiveFileCacheItemObsidian {
-	return "add" in item;
-}
-
 export default class TodoisterPlugin extends Plugin {
 	#data!: PluginData;
 	#processContentChangeTimeout?: ReturnType<typeof setTimeout>;
-	#todoistClient: TodoistApi | undefined;
+	#todoistClient: TodoistSyncApi | undefined;
 	#queryClient!: QueryClient;
 	#unsubscribePersist?: VoidFunction;
-	#activeFileCache = new Map<string, ActiveFileCacheItem>();
+	#fileSyncs = new Map<string, FileSync>();
+	#activeFilePath?: string;
 	#syncIndicator?: SyncIndicator;
-	#getTodoistClient = (): TodoistApi => {
+	#requestScheduler = new RequestScheduler();
+	#removedTasks?: RemovedTasks;
+	#getTodoistClient = (): TodoistSyncApi => {
 		const client = this.#todoistClient;
 
 		if (!client) {
@@ -84,6 +106,19 @@ export default class TodoisterPlugin extends Plugin {
 
 		return client;
 	};
+	#getTaskFormat = (): TaskFormat => ({
+		metadataStyle: this.metadataStyle,
+		tagsMode: this.tagsMode,
+		sectionMode: this.sectionMode,
+		recurrenceMode: this.recurrenceMode,
+		deletedMode: this.deletedMode,
+		commentsMode: this.commentsMode,
+		statuses: this.statuses,
+	});
+	#getContentOptions = (): ContentOptions => ({
+		vault: this.app.vault.getName(),
+		wikilinkMode: this.wikilinkMode,
+	});
 	oauthState?: string;
 	userInfoObserver?: Pick<QueryObserver<CurrentUser>, "subscribe" | "destroy">;
 	projectListObserver?: Pick<
@@ -114,11 +149,144 @@ export default class TodoisterPlugin extends Plugin {
 		this.#saveData();
 	}
 
+	get metadataStyle(): MetadataStyle {
+		return this.#data.metadataStyle ?? defaultTaskFormat.metadataStyle;
+	}
+
+	set metadataStyle(value: MetadataStyle) {
+		this.#data.metadataStyle = value;
+
+		this.#saveData();
+	}
+
+	get tagsMode(): TagsMode {
+		return this.#data.tagsMode ?? defaultTaskFormat.tagsMode;
+	}
+
+	set tagsMode(value: TagsMode) {
+		this.#data.tagsMode = value;
+
+		this.#saveData();
+	}
+
+	get sectionMode(): SectionMode {
+		return this.#data.sectionMode ?? defaultTaskFormat.sectionMode;
+	}
+
+	set sectionMode(value: SectionMode) {
+		this.#data.sectionMode = value;
+
+		this.#saveData();
+	}
+
+	get recurrenceMode(): RecurrenceMode {
+		return this.#data.recurrenceMode ?? defaultTaskFormat.recurrenceMode;
+	}
+
+	set recurrenceMode(value: RecurrenceMode) {
+		this.#data.recurrenceMode = value;
+
+		this.#saveData();
+	}
+
+	get deletedMode(): DeletedMode {
+		return this.#data.deletedMode ?? defaultTaskFormat.deletedMode;
+	}
+
+	set deletedMode(value: DeletedMode) {
+		this.#data.deletedMode = value;
+
+		this.#saveData();
+	}
+
+	get commentsMode(): CommentsMode {
+		return this.#data.commentsMode ?? defaultTaskFormat.commentsMode;
+	}
+
+	set commentsMode(value: CommentsMode) {
+		this.#data.commentsMode = value;
+
+		this.#saveData();
+	}
+
+	get statuses(): StatusMap {
+		return { ...defaultTaskFormat.statuses, ...this.#data.statuses };
+	}
+
+	set statuses(value: StatusMap) {
+		this.#data.statuses = value;
+
+		this.#saveData();
+	}
+
+	get removedMode(): RemovedMode {
+		return this.#data.removedMode ?? "keep";
+	}
+
+	set removedMode(value: RemovedMode) {
+		this.#data.removedMode = value;
+
+		this.#saveData();
+	}
+
+	get wikilinkMode(): WikilinkMode {
+		return this.#data.wikilinkMode ?? "link";
+	}
+
+	set wikilinkMode(value: WikilinkMode) {
+		this.#data.wikilinkMode = value;
+
+		this.#saveData();
+	}
+
+	get backlinkMode(): BacklinkMode {
+		return this.#data.backlinkMode ?? "off";
+	}
+
+	set backlinkMode(value: BacklinkMode) {
+		this.#data.backlinkMode = value;
+
+		// Synced files take the option when created
+		this.#clearFileSyncs();
+		this.#saveData();
+	}
+
 	async onload() {
 		await this.#loadData();
 		await this.#initQueryClient();
 		this.#initClient();
 
+		// Pause queries and mutations while Todoist asks to retry later or the
+		// device is offline, paused mutations resume once back "online"
+		onlineManager.setEventListener((setOnline) => {
+			const update = () =>
+				setOnline(!this.#requestScheduler.throttled && navigator.onLine);
+			const unsubscribe = this.#requestScheduler.subscribe(update);
+
+			window.addEventListener("online", update);
+			window.addEventListener("offline", update);
+
+			return () => {
+				unsubscribe();
+				window.removeEventListener("online", update);
+				window.removeEventListener("offline", update);
+			};
+		});
+		this.register(() => onlineManager.setEventListener(() => undefined));
+
+		this.#removedTasks = new RemovedTasks({
+			queryClient: this.#queryClient,
+			mode: () => this.removedMode,
+			isPresent: (taskId) =>
+				[...this.#fileSyncs.values()].some((fileSync) => fileSync.has(taskId)),
+			confirm: (tasks, mode) => RemovalModal.ask(this.app, { tasks, mode }),
+		});
+
+		// Send changes queued before the last quit
+		if (this.#todoistClient) {
+			this.#queryClient.resumePausedMutations();
+		}
+
 		this.userInfoObserver = queryUserInfo({
 			queryClient: this.#queryClient,
 			todoistApi: this.#getTodoistClient,
@@ -144,6 +312,12 @@ export default class TodoisterPlugin extends Plugin {
 			checkCallback: this.#onDisableSync,
 		});
 
+		this.addCommand({
+			id: "import-todoist-tasks",
+			name: "Import Todoist project or filter at cursor",
+			editorCheckCallback: this.#onImportTasks,
+		});
+
 		this.addCommand({
 			id: "refresh-todoist-cache",
 			name: "Resync current file with Todoist",
@@ -151,11 +325,24 @@ export default class TodoisterPlugin extends Plugin {
 		});
 
 		this.registerObsidianProtocolHandler("todoister-oauth", this.#onOauth);
+		this.registerObsidianProtocolHandler(BACKLINK_ACTION, this.#onBacklink);
+
+		this.registerMarkdownCodeBlockProcessor("todoister", (source, el, ctx) => {
+			ctx.addChild(
+				new FilterBlock(el, {
+					queryClient: this.#queryClient,
+					todoistApi: this.#getTodoistClient,
+					filter: source,
+				}),
+			);
+		});
 
-		this.registerEvent(this.app.workspace.on("file-open", this.#onFileOpen));
+		this.registerEvent(
+			this.app.workspace.on("file-open", this.#syncActiveFile),
+		);
 
 		this.registerEvent(
-			this.app.workspace.on("layout-change", this.#onLayoutChange),
+			this.app.workspace.on("layout-change", this.#syncActiveFile),
 		);
 
 		this.registerEvent(
@@ -165,18 +352,35 @@ export default class TodoisterPlugin extends Plugin {
 		this.registerDomEvent(window, "focus", this.#invalidateStale);
 		this.registerDomEvent(window, "online", this.#invalidateStale);
 
+		this.registerEvent(
+			this.app.metadataCache.on("changed", this.#syncBackgroundFile),
+		);
+
+		this.registerEvent(this.app.vault.on("delete", this.#onFileDelete));
+
+		this.registerEvent(this.app.vault.on("rename", this.#onFileRename));
+
+		this.registerInterval(
+			window.setInterval(this.#invalidateStale, BACKGROUND_SYNC_INTERVAL),
+		);
+
 		this.#syncIndicator = new SyncIndicator(
 			this.#queryClient,
+			this.#requestScheduler,
 			this.addStatusBarItem(),
 		);
 
-		this.#onLayoutChange();
+		this.#syncActiveFile();
+
+		this.app.workspace.onLayoutReady(this.#syncVault);
 	}
 
 	onunload() {
-		this.#clearActiveFileCache();
+		this.#clearFileSyncs();
+		this.#removedTasks?.destroy();
 		this.#unsubscribePersist?.();
 		this.#syncIndicator?.destroy();
+		this.#requestScheduler.destroy();
 		this.userInfoObserver?.destroy();
 		this.projectListObserver?.destroy();
 		this.#queryClient?.clear();
@@ -196,8 +400,8 @@ export default class TodoisterPlugin extends Plugin {
 
 	#initClient() {
 		if (this.#data.oauthAccessToken) {
-			this.#todoistClient = new TodoistApi(this.#data.oauthAccessToken, {
-				customFetch: obsidianFetchAdapter,
+			this.#todoistClient = new TodoistSyncApi(this.#data.oauthAccessToken, {
+				customFetch: this.#requestScheduler.fetch(obsidianFetchAdapter),
 			});
 		} else {
 			this.#todoistClient = undefined;
@@ -226,26 +430,59 @@ export default class TodoisterPlugin extends Plugin {
 
 		const { queryClient, unsubscribe } = await createQueryClient({
 			persister,
+			todoistApi: this.#getTodoistClient,
+			contentOptions: this.#getContentOptions,
 		});
 
 		this.#queryClient = queryClient;
 		this.#unsubscribePersist = unsubscribe;
 	}
 
-	#checkRequirements() {
+	#hasProject(file: TFile) {
+		return (
+			Boolean(this.#data.todoistProjectId) ||
+			hasProjectOverride(this.app.metadataCache.getFileCache(file)?.frontmatter)
+		);
+	}
+
+	#hasRequirements(file: TFile) {
+		return Boolean(this.#data.oauthAccessToken) && this.#hasProject(file);
+	}
+
+	#checkRequirements(file: TFile) {
 		if (!this.#data.oauthAccessToken) {
 			new Notice("Please connect your Todoist account in settings");
 			return false;
 		}
 
-		if (!this.#data.todoistProjectId) {
-			new Notice("Please configure your project ID in settings");
+		if (!this.#hasProject(file)) {
+			new Notice(
+				`Please configure your project ID in settings or set ${PROJECT_FRONTMATTER_KEY} in the note`,
+			);
 			return false;
 		}
 
 		return true;
 	}
 
+	#resolveTaskTarget = async (
+		file: TFile,
+		heading?: string,
+	): Promise<TaskTarget> => {
+		try {
+			return await resolveTaskTarget({
+				queryClient: this.#queryClient,
+				todoistApi: this.#getTodoistClient,
+				frontmatter: this.app.metadataCache.getFileCache(file)?.frontmatter,
+				defaultProjectId: this.#data.todoistProjectId,
+				heading,
+			});
+		} catch (error) {
+			new Notice(`${file.basename}: ${(error as Error).message}`);
+			throw error;
+		}
+	};
+
 	#pluginIsEnabled(file: TFile | null): file is TFile {
 		if (!file) return false;
 
@@ -260,9 +497,9 @@ export default class TodoisterPlugin extends Plugin {
 		});
 
 		if (enable) {
-			this.#onLayoutChange();
+			this.#syncActiveFile();
 		} else {
-			this.#clearActiveFileCache();
+			this.#removeFileSync(file.path);
 		}
 	}
 
@@ -286,6 +523,58 @@ export default class TodoisterPlugin extends Plugin {
 		return true;
 	};
 
+	#onImportTasks = (
+		checking: boolean,
+		editor: Editor,
+		ctx: MarkdownView | MarkdownFileInfo,
+	) => {
+		const file = ctx.file;
+		if (!file || !this.#todoistClient) return false;
+
+		if (!checking) {
+			new ImportModal(this.app, {
+				projects: () =>
+					fetchProjectList({
+						queryClient: this.#queryClient,
+						todoistApi: this.#getTodoistClient,
+					}),
+				onChoose: (source) => this.#importTasks(file, editor, source),
+			}).open();
+		}
+		return true;
+	};
+
+	async #importTasks(file: TFile, editor: Editor, source: TaskSource) {
+		const format = this.#getTaskFormat();
+		let lines: string[];
+
+		try {
+			lines = await importTaskLines({
+				queryClient: this.#queryClient,
+				todoistApi: this.#getTodoistClient,
+				source,
+				content: editor.getValue(),
+				format,
+				contentOptions: this.#getContentOptions(),
+			});
+		} catch (error) {
+			new Notice(`Failed to import Todoist tasks: ${(error as Error).message}`);
+			return;
+		}
+
+		if (lines.length === 0) {
+			new Notice("No Todoist tasks to import");
+			return;
+		}
+
+		editor.replaceSelection(`${lines.join("\n")}\n`);
+		setImportedBaselines(this.#queryClient, lines, format);
+
+		if (!this.#pluginIsEnabled(file)) {
+			await this.#toggleTodoistSync(file, true);
+		}
+	}
+
 	#onOauth = ({ code, state, error }: Record<string, string>) => {
 		if (error) {
 			this.oauthCallbackRejector?.(
@@ -313,209 +602,182 @@ export default class TodoisterPlugin extends Plugin {
 		this.oauthCallbackResolver?.(code);
 	};
 
-	#clearActiveFileCache(): void {
-		for (const cacheEntry of this.#activeFileCache.values()) {
-			if (!isObsidianCacheItem(cacheEntry)) {
-				cacheEntry.query.destroy();
-			}
-		}
-
-		this.#activeFileCache.clear();
-	}
-
-	#updateActiveFileCache(parseResults: ParseResults) {
-		const existedTaskIds = new Set<string>();
-
-		for (const { task } of parseResults) {
-			existedTaskIds.add(task.id);
+	/**
+	 * Open the note of a back-link from Todoist, scrolled to the block of the
+	 * task line
+	 */
+	#onBacklink = async ({ file, block }: Record<string, string>) => {
+		const target = file ? this.app.vault.getFileByPath(file) : null;
 
-			const cacheItem = this.#activeFileCache.get(task.id);
-
-			if (cacheItem) {
-				if (isObsidianCacheItem(cacheItem)) {
-					cacheItem.updatedAt = Date.now();
-				} else {
-					const { data: todoistTask } = cacheItem.query.getCurrentResult();
+		if (!target) {
+			new Notice(`Note ${file ?? ""} not found`);
+			return;
+		}
 
-					if (!todoistTask || "deleted" in todoistTask) continue; // should not happen, cache created on file read
+		await this.app.workspace.openLinkText(
+			block ? `${target.path}#^${block}` : target.path,
+			"",
+		);
+	};
 
-					if (!tasksEquals(todoistTask, task)) {
-						if (todoistTask.checked !== task.checked) {
-							cacheItem.toggleCheck.mutate({ checked: task.checked });
-						}
+	#getFileSync(file: TFile, document: SyncDocument): FileSync {
+		let fileSync = this.#fileSyncs.get(file.path);
 
-						if (todoistTask.content !== task.content) {
-							cacheItem.updateContent.mutate({
-								content: task.content,
-							});
-						}
+		if (fileSync) {
+			fileSync.document = document;
+		} else {
+			fileSync = new FileSync({
+				queryClient: this.#queryClient,
+				todoistApi: this.#getTodoistClient,
+				target: (heading) => this.#resolveTaskTarget(file, heading),
+				taskFormat: this.#getTaskFormat,
+				contentOptions: this.#getContentOptions,
+				document,
+				resolveConflict: (conflict) =>
+					ConflictModal.ask(this.app, {
+						conflict,
+						format: this.#getTaskFormat(),
+						fileName: file.basename,
+					}),
+				onDeleted: (tasks, restore) =>
+					showDeletedNotice({ fileName: file.basename, tasks, restore }),
+				onRemoved: (tasks) => this.#removedTasks?.add(tasks),
+				resolveDuplicate: (duplicate) =>
+					DuplicateModal.ask(this.app, {
+						duplicate,
+						format: this.#getTaskFormat(),
+						fileName: file.basename,
+					}),
+				...(this.backlinkMode === "comment" && {
+					backlink: (taskId: string) =>
+						backlinkComment({
+							vault: this.app.vault.getName(),
+							file: file.path,
+							block: taskId,
+						}),
+				}),
+				isElsewhere: (taskId) =>
+					[...this.#fileSyncs.values()].some(
+						(other) => other !== fileSync && other.has(taskId),
+					),
+				onError: (error) => new Notice(`${file.basename}: ${error.message}`),
+			});
 
-						cacheItem.updatedAt = undefined;
-					}
-				}
-			} else {
-				this.#addToActiveFileCache(task.id, this.#createCacheEntry(task));
-			}
-		}
-		for (const [taskId] of this.#activeFileCache) {
-			if (!existedTaskIds.has(taskId)) {
-				this.#deleteFromActiveFileCache(taskId);
-			}
+			this.#fileSyncs.set(file.path, fileSync);
 		}
-	}
 
-	#addToActiveFileCache(id: string, item: ActiveFileCacheItem) {
-		this.#activeFileCache.set(id, item);
+		return fileSync;
 	}
 
-	#deleteFromActiveFileCache(id: string) {
-		const cacheItem = this.#activeFileCache.get(id);
-
-		if (!cacheItem) return;
-
-		if (!isObsidianCacheItem(cacheItem)) {
-			cacheItem.query.destroy();
-		}
-
-		this.#activeFileCache.delete(id);
+	#removeFileSync(path: string) {
+		this.#fileSyncs.get(path)?.destroy();
+		this.#fileSyncs.delete(path);
 	}
 
-	#createCacheEntry(task: ObsidianTask): ActiveFileCacheItem {
-		if (isObsidianId(task.id)) {
-			return this.#createObsidianCacheEntry(task);
-		} else {
-			return this.#createTodoistCacheEntry(task);
+	#clearFileSyncs(): void {
+		for (const fileSync of this.#fileSyncs.values()) {
+			fileSync.destroy();
 		}
+
+		this.#fileSyncs.clear();
 	}
 
-	#createTodoistCacheEntry(task: ObsidianTask): ActiveFileCacheItemTodoist {
-		const cacheEntry: ActiveFileCacheItemTodoist = {
-			query: queryTask({
-				queryClient: this.#queryClient,
-				taskId: task.id,
-				todoistApi: this.#getTodoistClient,
-				initialData: task,
-			}),
-			updateContent: mutationUpdateTask({
-				queryClient: this.#queryClient,
-				taskId: task.id,
-				todoistApi: this.#getTodoistClient,
-			}),
-			toggleCheck: mutationSetCheckedTask({
-				queryClient: this.#queryClient,
-				taskId: task.id,
-				todoistApi: this.#getTodoistClient,
-			}),
-		};
+	#getActiveEditor(): { file: TFile; editor: Editor } | undefined {
+		const { file, editor } = this.app.workspace.activeEditor ?? {};
 
-		cacheEntry.query.subscribe(this.#onQueryUpdate);
+		if (!file || !editor) return undefined;
 
-		return cacheEntry;
+		return { file, editor };
 	}
 
-	#createObsidianCacheEntry({
-		id,
-		...task
-	}: ObsidianTask): ActiveFileCacheItemObsidian {
-		const add = mutationAddTask({
-			queryClient: this.#queryClient,
-			taskId: id,
-			todoistApi: this.#getTodoistClient,
-			projectId: this.#data.todoistProjectId!,
-		});
+	/**
+	 * Hand the previously active file back to the background sync
+	 * @param activePath - Path of the file that is active now
+	 */
+	#releaseActiveFile(activePath: string | undefined) {
+		const previousPath = this.#activeFilePath;
 
-		add.mutate(task).then((todoistTask) => {
-			const file = this.app.workspace.getActiveFile();
-			const editor = this.app.workspace.activeEditor?.editor;
+		if (!previousPath || previousPath === activePath) return;
 
-			if (!this.#pluginIsEnabled(file)) return;
-			if (!editor) return;
+		this.#activeFilePath = undefined;
 
-			if (editor.getValue().includes(id)) {
-				let offset = editor.getValue().indexOf(id);
+		const file = this.app.vault.getFileByPath(previousPath);
+		const fileSync = this.#fileSyncs.get(previousPath);
 
-				while (offset !== -1) {
-					const from = editor.offsetToPos(offset);
-					const to = editor.offsetToPos(offset + id.length);
+		if (file && fileSync) {
+			fileSync.document = vaultDocument(this.app.vault, file);
+		}
+	}
 
-					this.#replaceRange(editor, todoistTask.id, from, to);
+	#syncActiveFile = () => {
+		const activeEditor = this.#getActiveEditor();
 
-					offset = editor.getValue().indexOf(id);
-				}
+		this.#releaseActiveFile(activeEditor?.file.path);
 
-				this.#addToActiveFileCache(
-					todoistTask.id,
-					this.#createTodoistCacheEntry(todoistTask),
-				);
+		if (!activeEditor) return;
 
-				this.#handleContentUpdate(); // If task created checked
-			}
+		const { file, editor } = activeEditor;
 
-			this.#deleteFromActiveFileCache(id);
-		});
+		if (!this.#pluginIsEnabled(file)) {
+			this.#removeFileSync(activeEditor.file.path);
+			return;
+		}
 
-		return {
-			add,
-		};
-	}
+		if (!this.#checkRequirements(file)) return;
 
-	#replaceRange(
-		editor: Editor,
-		text: string,
-		from: EditorPosition,
-		to: EditorPosition,
-	) {
-		const cursorPos = editor.getCursor();
-		const isOnEditedLine = cursorPos.line === from.line;
+		this.#activeFilePath = file.path;
 
-		editor.replaceRange(text, from, to);
+		this.#getFileSync(
+			file,
+			editorDocument(editor, this.#onDocumentEdit),
+		).sync();
+	};
 
-		if (isOnEditedLine) {
-			editor.setCursor(cursorPos);
+	#syncBackgroundFile = (file: TFile) => {
+		if (file.path === this.#activeFilePath) return;
+
+		if (!this.#pluginIsEnabled(file) || !this.#hasRequirements(file)) {
+			this.#removeFileSync(file.path);
+			return;
 		}
 
-		clearTimeout(this.#processContentChangeTimeout);
-	}
+		this.#getFileSync(file, vaultDocument(this.app.vault, file)).sync();
+	};
 
-	#handleContentUpdate = () => {
-		const editor = this.app.workspace.activeEditor?.editor;
+	#syncVault = () => {
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			this.#syncBackgroundFile(file);
+		}
+	};
 
-		if (!editor) return;
+	#onFileDelete = (file: TAbstractFile) => {
+		this.#removeFileSync(file.path);
+	};
 
-		const parseResults = parseContent(editor.getValue());
+	#onFileRename = (file: TAbstractFile, oldPath: string) => {
+		const fileSync = this.#fileSyncs.get(oldPath);
 
-		for (const { task, from, to } of parseResults.filter(
-			({ isNew }) => isNew,
-		)) {
-			this.#replaceRange(editor, obsidianTaskStringify(task), from, to);
-		}
+		if (!fileSync || !(file instanceof TFile)) return;
 
-		this.#updateActiveFileCache(parseResults);
-	};
+		this.#fileSyncs.delete(oldPath);
+		this.#fileSyncs.set(file.path, fileSync);
 
-	#onFileOpen = (file: TFile | null) => {
-		if (!this.#checkRequirements() || !this.#pluginIsEnabled(file)) {
-			this.#clearActiveFileCache();
+		if (this.#activeFilePath === oldPath) {
+			this.#activeFilePath = file.path;
 		}
 	};
 
-	#onLayoutChange = () => {
-		if (!this.#pluginIsEnabled(this.app.workspace.getActiveFile())) return;
-		if (!this.#checkRequirements()) return;
-
-		this.#handleContentUpdate();
+	#onDocumentEdit = () => {
+		clearTimeout(this.#processContentChangeTimeout);
 	};
 
 	#onEditorChange = () => {
 		clearTimeout(this.#processContentChangeTimeout);
 
 		this.#processContentChangeTimeout = setTimeout(() => {
-			if (!this.#pluginIsEnabled(this.app.workspace.getActiveFile())) return;
-			if (!this.#checkRequirements()) return;
-
 			this.#processContentChangeTimeout = undefined;
 
-			this.#handleContentUpdate();
+			this.#syncActiveFile();
 		}, 1000);
 	};
 
@@ -525,60 +787,9 @@ export default class TodoisterPlugin extends Plugin {
 		this.#queryClient.invalidateQueries();
 	};
 
+	// Refetches only queries observed by synced files and filter blocks, task
+	// queries share one incremental Sync API request
 	#invalidateStale = () => {
-		if (!this.#pluginIsEnabled(this.app.workspace.getActiveFile())) return;
-
 		this.#queryClient.invalidateQueries({ stale: true });
 	};
-
-	#onQueryUpdate = ({
-		data: todoistTask,
-		status,
-	}: QueryObserverResult<ObsidianTask | { deleted: true; id: string }>) => {
-		if (!this.#pluginIsEnabled(this.app.workspace.getActiveFile())) return;
-		if (!this.#checkRequirements()) return;
-
-		if (!todoistTask || status !== "success") return;
-
-		const cacheEntry = this.#activeFileCache?.get(todoistTask.id);
-
-		if ("deleted" in todoistTask) {
-			const editor = this.app.workspace.activeEditor?.editor;
-
-			if (editor) {
-				const toRemove = parseContent(editor.getValue())
-					.filter(({ task }) => task.id === todoistTask.id)
-					.sort((a, b) => b.from.line - a.from.line || b.from.ch - a.from.ch);
-
-				for (const { from } of toRemove) {
-					this.#replaceRange(
-						editor,
-						"",
-						{ line: from.line, ch: 0 },
-						{ line: from.line + 1, ch: 0 },
-					);
-				}
-			}
-
-			this.#deleteFromActiveFileCache(todoistTask.id);
-			return;
-		}
-
-		if (cacheEntry?.updatedAt) return;
-
-		const editor = this.app.workspace.activeEditor?.editor;
-
-		if (!editor) return;
-
-		const updatedTask = obsidianTaskStringify(todoistTask);
-
-		const changes = parseContent(editor.getValue()).filter(
-			({ task }) =>
-				task.id === todoistTask.id && !tasksEquals(task, todoistTask),
-		);
-
-		for (const { from, to } of changes) {
-			this.#replaceRange(editor, updatedTask, from, to);
-		}
-	};
 }
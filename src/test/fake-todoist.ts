@@ -0,0 +1,437 @@
+import type {
+	CustomFetch,
+	CustomFetchResponse,
+} from "@doist/todoist-api-typescript";
+import type { RequestUrlParam, RequestUrlResponse } from "obsidian";
+
+const NOW = "2026-10-19T10:00:00.000000Z";
+const TODAY = "2026-10-19";
+const SYNC_PATH = "/api/v1/sync";
+const TASK_PATH_REGEX = /\/api\/v1\/tasks\/([^/?]+)$/;
+const COMMENTS_PATH = "/api/v1/comments";
+const TASKS_PATH = "/api/v1/tasks";
+const DATE_REGEX = /\d{4}-\d{2}-\d{2}/;
+
+/** Task as sent by the API, with snake_case field names */
+export type RawTask = Record<string, unknown> & {
+	id: string;
+	content: string;
+	checked: boolean;
+	is_deleted: boolean;
+};
+
+/** Comment as sent by the API, with snake_case field names */
+export type RawNote = Record<string, unknown> & {
+	id: string;
+	item_id: string;
+	content: string;
+	is_deleted: boolean;
+};
+
+interface SentCommand {
+	type: string;
+	uuid: string;
+	args: Record<string, unknown>;
+	temp_id?: string;
+}
+
+interface RequestLogEntry {
+	method: string;
+	url: string;
+	status: number;
+	/** Commands of a sync request */
+	commands?: SentCommand[];
+}
+
+const due = (args: unknown) => {
+	if (!args || typeof args !== "object") return null;
+
+	if ("date" in args && typeof args.date === "string") {
+		return { date: args.date, string: args.date, is_recurring: false };
+	}
+
+	if ("string" in args && typeof args.string === "string") {
+		return {
+			date: args.string.match(DATE_REGEX)?.[0] ?? TODAY,
+			string: args.string,
+			is_recurring: /\bevery\b/i.test(args.string),
+		};
+	}
+
+	return null;
+};
+
+/**
+ * In-process Todoist server for tests. Answers the Sync API and the REST tasks
+ * and comments endpoints through a CustomFetch, or through requestUrl of the
+ * Obsidian stub. Closing a recurring task checks it like any other task.
+ */
+export class FakeTodoist {
+	/** Requests in the order they were answered */
+	requests: RequestLogEntry[] = [];
+	#tasks = new Map<string, { task: RawTask; version: number }>();
+	#notes = new Map<string, { note: RawNote; version: number }>();
+	#version = 0;
+	#nextId = 1;
+	#rateLimited = 0;
+	#retryAfter = "0";
+
+	/**
+	 * Task by id, deleted tasks included
+	 */
+	task(id: string): RawTask | undefined {
+		return this.#tasks.get(id)?.task;
+	}
+
+	/**
+	 * Create a task, as if from another client
+	 * @returns Id of the created task
+	 */
+	addTask(fields: Partial<RawTask> = {}): string {
+		const id = String(this.#nextId++);
+
+		this.#save({
+			id,
+			user_id: "1",
+			project_id: "inbox",
+			section_id: null,
+			parent_id: null,
+			added_by_uid: "1",
+			assigned_by_uid: null,
+			responsible_uid: null,
+			labels: [],
+			deadline: null,
+			duration: null,
+			checked: false,
+			is_deleted: false,
+			added_at: NOW,
+			completed_at: null,
+			updated_at: NOW,
+			due: null,
+			priority: 1,
+			child_order: 1,
+			content: "",
+			description: "",
+			note_count: 0,
+			day_order: -1,
+			is_collapsed: false,
+			...fields,
+		});
+
+		return id;
+	}
+
+	/**
+	 * Change a task, as if from another client
+	 */
+	updateTask(id: string, fields: Partial<RawTask>) {
+		const task = this.task(id);
+
+		if (!task) throw new Error(`Task ${id} not found`);
+
+		this.#save({ ...task, ...fields, id });
+	}
+
+	/**
+	 * Delete a task, as if from another client
+	 */
+	deleteTask(id: string) {
+		this.updateTask(id, { is_deleted: true });
+	}
+
+	/**
+	 * Comments of a task, deleted ones included
+	 */
+	comments(taskId: string): RawNote[] {
+		return [...this.#notes.values()]
+			.map(({ note }) => note)
+			.filter(({ item_id }) => item_id === taskId);
+	}
+
+	/**
+	 * Comment on a task, as if from another client
+	 * @returns Id of the created comment
+	 */
+	addComment(taskId: string, content: string): string {
+		const id = String(this.#nextId++);
+
+		this.#saveNote({
+			id,
+			item_id: taskId,
+			content,
+			posted_at: NOW,
+			posted_uid: "1",
+			file_attachment: null,
+			uids_to_notify: null,
+			reactions: null,
+			is_deleted: false,
+		});
+
+		return id;
+	}
+
+	/**
+	 * Delete a comment, as if from another client
+	 */
+	deleteComment(id: string) {
+		const note = this.#notes.get(id)?.note;
+
+		if (!note) throw new Error(`Comment ${id} not found`);
+
+		this.#saveNote({ ...note, is_deleted: true });
+	}
+
+	/**
+	 * Answer the next requests with 429 Too Many Requests
+	 * @param retryAfter - Retry-After header value in seconds
+	 */
+	rateLimit(count: number, retryAfter = "0") {
+		this.#rateLimited = count;
+		this.#retryAfter = retryAfter;
+	}
+
+	fetch: CustomFetch = async (url, options) => {
+		const method = options?.method ?? "GET";
+		const { status, body, headers } = this.#handle(url, method, options?.body);
+
+		return {
+			ok: status >= 200 && status < 300,
+			status,
+			statusText: "",
+			headers: { "Content-Type": "application/json", ...headers },
+			text: async () => JSON.stringify(body),
+			json: async () => body,
+		} satisfies CustomFetchResponse;
+	};
+
+	/**
+	 * Handler for requestUrl of the Obsidian stub
+	 */
+	requestUrl = async ({
+		url,
+		method,
+		headers,
+		body,
+	}: RequestUrlParam): Promise<RequestUrlResponse> => {
+		const response = await this.fetch(url, { method, headers, body });
+		const text = await response.text();
+
+		return {
+			status: response.status,
+			headers: response.headers,
+			text,
+			get json() {
+				return JSON.parse(text);
+			},
+			arrayBuffer: new TextEncoder().encode(text).buffer,
+		};
+	};
+
+	#save(task: RawTask) {
+		this.#tasks.set(task.id, { task, version: ++this.#version });
+	}
+
+	#saveNote(note: RawNote) {
+		this.#notes.set(note.id, { note, version: ++this.#version });
+	}
+
+	#handle(
+		url: string,
+		method: string,
+		body: unknown,
+	): { status: number; body: unknown; headers?: Record<string, string> } {
+		const { pathname } = new URL(url);
+		const entry: RequestLogEntry = { method, url, status: 200 };
+		const params =
+			method === "POST" && pathname === SYNC_PATH
+				? new URLSearchParams(String(body ?? ""))
+				: undefined;
+		const commands = params?.get("commands");
+		const respond = (status: number, responseBody: unknown) => {
+			entry.status = status;
+			return { status, body: responseBody };
+		};
+
+		if (commands) {
+			entry.commands = JSON.parse(commands);
+		}
+
+		this.requests.push(entry);
+
+		if (this.#rateLimited > 0) {
+			this.#rateLimited--;
+			entry.status = 429;
+
+			return {
+				status: 429,
+				body: { error: "Too many requests" },
+				headers: { "Retry-After": this.#retryAfter },
+			};
+		}
+
+		if (params) {
+			return respond(
+				200,
+				this.#sync(params.get("sync_token") ?? "*", entry.commands ?? []),
+			);
+		}
+
+		if (method === "GET" && pathname === COMMENTS_PATH) {
+			const taskId = new URL(url).searchParams.get("task_id") ?? "";
+
+			return respond(200, {
+				results: this.comments(taskId).filter(({ is_deleted }) => !is_deleted),
+				next_cursor: null,
+			});
+		}
+
+		if (method === "GET" && pathname === TASKS_PATH) {
+			const projectId = new URL(url).searchParams.get("project_id");
+
+			return respond(200, {
+				results: [...this.#tasks.values()]
+					.map(({ task }) => task)
+					.filter(
+						(task) =>
+							!task.is_deleted &&
+							!task.checked &&
+							(!projectId || task.project_id === projectId),
+					),
+				next_cursor: null,
+			});
+		}
+
+		const taskId = method === "GET" && pathname.match(TASK_PATH_REGEX)?.[1];
+		const task = taskId && this.task(taskId);
+
+		if (task && !task.is_deleted) {
+			return respond(200, task);
+		}
+
+		return respond(404, { error: "Not found" });
+	}
+
+	#sync(syncToken: string, commands: SentCommand[]) {
+		const since = syncToken === "*" ? undefined : Number(syncToken);
+		const tempIdMapping: Record<string, string> = {};
+		const syncStatus: Record<string, unknown> = {};
+
+		for (const command of commands) {
+			const error = this.#runCommand(command, tempIdMapping);
+
+			syncStatus[command.uuid] = error
+				? { error, error_code: 22, http_code: 404, error_extra: {} }
+				: "ok";
+		}
+
+		const items = [...this.#tasks.values()]
+			.filter(({ task, version }) =>
+				since === undefined ? !task.is_deleted : version > since,
+			)
+			.map(({ task }) => task);
+		const notes = [...this.#notes.values()]
+			.filter(({ note, version }) =>
+				since === undefined ? !note.is_deleted : version > since,
+			)
+			.map(({ note }) => note);
+
+		return {
+			sync_token: String(this.#version),
+			full_sync: since === undefined,
+			items,
+			notes,
+			sync_status: syncStatus,
+			temp_id_mapping: tempIdMapping,
+		};
+	}
+
+	/**
+	 * @returns Error message of a failed command
+	 */
+	#runCommand(
+		{ type, args, temp_id }: SentCommand,
+		tempIdMapping: Record<string, string>,
+	): string | undefined {
+		const ref = (id: unknown) =>
+			typeof id === "string" ? (tempIdMapping[id] ?? id) : id;
+
+		if (type === "item_add") {
+			const id = this.addTask({
+				content: String(args.content ?? ""),
+				project_id: args.project_id ?? "inbox",
+				section_id: args.section_id ?? null,
+				parent_id: ref(args.parent_id) ?? null,
+				priority: args.priority ?? 1,
+				labels: args.labels ?? [],
+				due: due(args.due),
+				description: args.description ?? "",
+			});
+
+			if (temp_id) {
+				tempIdMapping[temp_id] = id;
+			}
+			return undefined;
+		}
+
+		if (type === "note_add") {
+			const taskId = String(ref(args.item_id));
+
+			if (!this.task(taskId) || this.task(taskId)?.is_deleted) {
+				return "Item not found";
+			}
+
+			const id = this.addComment(taskId, String(args.content ?? ""));
+
+			if (temp_id) {
+				tempIdMapping[temp_id] = id;
+			}
+			return undefined;
+		}
+
+		const id = String(ref(args.id));
+		const task = this.task(id);
+
+		if (!task || task.is_deleted) return "Item not found";
+
+		switch (type) {
+			case "item_update":
+				this.updateTask(id, {
+					...(args.content !== undefined && { content: String(args.content) }),
+					...(args.priority !== undefined && { priority: args.priority }),
+					...(args.labels !== undefined && { labels: args.labels ?? [] }),
+					...(args.due !== undefined && { due: due(args.due) }),
+					...(args.description !== undefined && {
+						description: args.description,
+					}),
+				});
+				return undefined;
+			case "item_close":
+				this.updateTask(id, { checked: true, completed_at: NOW });
+				return undefined;
+			case "item_uncomplete":
+				this.updateTask(id, { checked: false, completed_at: null });
+				return undefined;
+			case "item_move":
+				this.updateTask(id, {
+					...(args.parent_id !== undefined && {
+						parent_id: ref(args.parent_id),
+					}),
+					...(args.section_id !== undefined && {
+						section_id: args.section_id,
+						parent_id: null,
+					}),
+					...(args.project_id !== undefined && {
+						project_id: args.project_id,
+						section_id: null,
+						parent_id: null,
+					}),
+				});
+				return undefined;
+			case "item_delete":
+				this.deleteTask(id);
+				return undefined;
+			default:
+				return `Unknown command ${type}`;
+		}
+	}
+}
@@ -0,0 +1,30 @@
+/**
+ * Runtime stand-in for the "obsidian" module in tests, the package only ships
+ * type declarations. Covers the API used by the modules under test.
+ */
+import type { RequestUrlParam, RequestUrlResponse } from "obsidian";
+
+type RequestUrlHandler = (
+	request: RequestUrlParam,
+) => Promise<RequestUrlResponse>;
+
+let requestUrlHandler: RequestUrlHandler | undefined;
+
+/**
+ * Answer requestUrl calls, e.g. with a FakeTodoist
+ */
+export function setRequestUrlHandler(handler: RequestUrlHandler | undefined) {
+	requestUrlHandler = handler;
+}
+
+export function requestUrl(
+	request: RequestUrlParam | string,
+): Promise<RequestUrlResponse> {
+	if (!requestUrlHandler) {
+		throw new Error("No requestUrl handler, tests have no network access");
+	}
+
+	return requestUrlHandler(
+		typeof request === "string" ? { url: request } : request,
+	);
+}
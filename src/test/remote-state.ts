@@ -0,0 +1,118 @@
+import type {
+	RemoteCommand,
+	RemoteTaskState,
+	SyncInput,
+	TaskPlacement,
+} from "../lib/sync-engine.ts";
+import type { ObsidianTask } from "../lib/task/obsidian-task.ts";
+import type { TaskComment } from "../lib/task/task-comment.ts";
+
+/**
+ * Todoist state of the tasks of a sync engine test. Commands of sync plans
+ * are applied to it the way Todoist would, without any request.
+ */
+export class RemoteState {
+	tasks = new Map<string, ObsidianTask & TaskPlacement>();
+	comments = new Map<string, TaskComment[]>();
+	deleted = new Set<string>();
+	stale = new Set<string>();
+	#nextId = 1;
+
+	run(command: RemoteCommand): string | undefined {
+		switch (command.type) {
+			case "add": {
+				const id = String(this.#nextId++);
+				const { task, parentId, heading } = command;
+
+				this.tasks.set(id, { ...task, id, parentId, heading });
+				return id;
+			}
+			case "update": {
+				const task = this.#get(command.taskId);
+				const { content, dueDate, priority, labels, recurrence, description } =
+					command.changes;
+
+				this.tasks.set(task.id, {
+					...task,
+					...(content !== undefined && { content }),
+					...(dueDate !== undefined && { dueDate: dueDate ?? undefined }),
+					...(priority !== undefined && { priority: priority ?? undefined }),
+					...(labels !== undefined && { labels: labels ?? undefined }),
+					...(recurrence !== undefined && {
+						recurrence: recurrence ?? undefined,
+					}),
+					...(description !== undefined && {
+						description: description ?? undefined,
+					}),
+				});
+				return undefined;
+			}
+			case "set-checked": {
+				const task = this.#get(command.taskId);
+
+				// Closing a recurring task keeps it open, moved to its next date
+				this.tasks.set(
+					task.id,
+					command.checked && task.recurrence
+						? { ...task, dueDate: "2026-10-26" }
+						: { ...task, checked: command.checked },
+				);
+				return undefined;
+			}
+			case "move": {
+				const task = this.#get(command.taskId);
+
+				this.tasks.set(task.id, {
+					...task,
+					parentId: command.parentId,
+					heading: command.heading,
+				});
+				return undefined;
+			}
+			case "comment": {
+				const { id: tempId, content } = command.comment;
+
+				this.addComment(command.taskId, content, tempId);
+				return undefined;
+			}
+			case "delete":
+				this.tasks.delete(command.taskId);
+				this.deleted.add(command.taskId);
+				return undefined;
+		}
+	}
+
+	addComment(taskId: string, content: string, tempId?: string) {
+		const comment = {
+			id: `c${this.#nextId++}`,
+			content,
+			postedAt: "2026-10-19T10:00:00Z",
+			...(tempId && { tempId }),
+		};
+
+		this.comments.set(taskId, [...(this.comments.get(taskId) ?? []), comment]);
+	}
+
+	/** Remote input of the sync engine */
+	input(): SyncInput["remote"] {
+		const remote = new Map<string, RemoteTaskState>();
+
+		for (const { parentId: _, heading: __, ...task } of this.tasks.values()) {
+			remote.set(task.id, { task, stale: this.stale.has(task.id) });
+		}
+
+		for (const id of this.deleted) {
+			remote.set(id, { deleted: true });
+		}
+
+		return remote;
+	}
+
+	#get(id: string) {
+		const task = this.tasks.get(id);
+
+		if (!task) throw new Error(`Task ${id} not found`);
+
+		return task;
+	}
+}
@@ -0,0 +1,87 @@
+import {
+	planSync,
+	type SyncInput,
+	type SyncPlan,
+	type TaskPlacement,
+} from "../lib/sync-engine.ts";
+import type { ObsidianTask } from "../lib/task/obsidian-task.ts";
+import { defaultTaskFormat, type TaskFormat } from "../lib/task/task-format.ts";
+import { applyTextEdits, replaceAllEdits } from "../lib/text-edit.ts";
+import { RemoteState } from "./remote-state.ts";
+
+/**
+ * Note synced with a RemoteState, applying plans the way FileSync does
+ */
+export class SyncHarness {
+	content: string;
+	format: TaskFormat;
+	remote = new RemoteState();
+	baselines = new Map<string, ObsidianTask>();
+	placements = new Map<string, TaskPlacement>();
+	dismissedConflicts = new Map<string, string>();
+
+	constructor(content: string, format: TaskFormat = defaultTaskFormat) {
+		this.content = content;
+		this.format = format;
+	}
+
+	sync(
+		source: SyncInput["source"] = "local",
+		options: Partial<SyncInput> = {},
+	): SyncPlan {
+		const plan = planSync({
+			content: this.content,
+			format: this.format,
+			remote: this.remote.input(),
+			baselines: this.baselines,
+			placements: this.placements,
+			source,
+			dismissedConflicts: this.dismissedConflicts,
+			comments: this.remote.comments,
+			today: "2026-10-19",
+			...options,
+		});
+
+		this.content = applyTextEdits(this.content, plan.edits);
+
+		for (const task of plan.baselines) {
+			this.baselines.set(task.id, task);
+		}
+
+		for (const id of plan.deleted) {
+			this.baselines.delete(id);
+		}
+
+		this.placements = new Map(
+			[...plan.tasks].map(([id, { parentId, heading }]) => [
+				id,
+				{ parentId, heading },
+			]),
+		);
+
+		for (const command of plan.commands) {
+			const createdId = this.remote.run(command);
+
+			if (command.type === "add" && createdId) {
+				this.content = applyTextEdits(
+					this.content,
+					replaceAllEdits(this.content, command.task.id, createdId),
+				);
+				this.placements.delete(command.task.id);
+				this.placements.set(createdId, command);
+				this.baselines.set(createdId, { ...command.task, id: createdId });
+			}
+		}
+
+		return plan;
+	}
+
+	/** Change a task in the remote state */
+	edit(id: string, changes: Partial<ObsidianTask>) {
+		const task = this.remote.tasks.get(id);
+
+		if (!task) throw new Error(`Task ${id} not found`);
+
+		this.remote.tasks.set(id, { ...task, ...changes });
+	}
+}